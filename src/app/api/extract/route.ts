@@ -1,22 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-// 기본 필드 (클라이언트가 안 보내면 이 목록 사용)
-const DEFAULT_FIELDS = [
-  'manufacturer',
-  'pump model name',
-  'rated flow',
-  'max flow',
-  'min flow',
-  'normal flow',
-  'TDH',
-  'casing material',
-  'shaft material',
-  'impeller material',
-  'shaft power',
-  'pump efficiency',
-  'shutoff TDH',
-];
+import { addUsage, createLLMProvider, emptyUsage, type LLMProvider } from '@/lib/llm';
+import { parseMarkdownTables, sanitizeTables, tableRows, tablesToMarkdown, tableToGrid, tableToMarkdown, type StructuredTable } from '@/lib/table-structure';
+import { loadPromptTemplate, templateRef } from '@/lib/prompt-templates';
+import { failureBody } from '@/lib/convert-request';
+import { formatBytes, LIMITS, rateLimit } from '@/lib/limits';
+import { locateFields } from '@/lib/provenance';
+import { normalizeValue, type NormalizedValue } from '@/lib/units';
+import { DEFAULT_SCHEMA, parseFieldSchema, specFor, validateFields, type FieldSchema } from '@/lib/field-schema';
+import { MAX_CHUNKS, mergeChunkItems, reportChunks, splitMarkdownChunks, type ChunkItem, type ChunkReport } from '@/lib/extract-chunks';
+import { createLimiter } from '@/lib/concurrency';
+import { cacheKey } from '@/lib/cache';
+
+// 기본 필드 (클라이언트가 안 보내고 스키마/템플릿에도 없으면 이 목록 사용)
+const DEFAULT_FIELDS = DEFAULT_SCHEMA.fields.map(f => f.name);
+// 동시에 모델에 보내는 청크 수
+const EXTRACT_CONCURRENCY = Math.max(1, Number(process.env.EXTRACT_CONCURRENCY) || 3);
 
 function coerceToPlainJson(text: string) {
   if (!text) return {};
@@ -44,11 +42,20 @@ function escapeRegex(s: string) {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function heuristicExtract(markdown: string, requested: string[]) {
+function heuristicExtract(markdown: string, requested: string[], tables: StructuredTable[] = []) {
   const text = (markdown || '').replace(/\r/g, '');
   const lines = text.split('\n').map((l) => l.trim());
 
   function findValueByKeys(keys: string[]) {
+    // 구조화된 표: 라벨 셀 오른쪽의 첫 값 (병합 셀은 한 번만 등장)
+    for (const table of tables) {
+      for (const row of tableRows(table)) {
+        const idx = row.findIndex(c => keys.some(k => c.text.toLowerCase().includes(k.toLowerCase())));
+        if (idx < 0) continue;
+        const value = row.slice(idx + 1).find(c => c.text.trim());
+        if (value) return value.text.trim();
+      }
+    }
     const pattern = new RegExp(
       `^(?:\\|\\s*)?(?:${keys.map(k => escapeRegex(k)).join('|')})\\s*(?:\\||:|=|-)?\\s*([^|]+?)(?:\\|.*)?$`,
       'i'
@@ -91,6 +98,45 @@ function heuristicExtract(markdown: string, requested: string[]) {
   return out;
 }
 
+// 여러 장비가 열(column)별로 나란히 있는 표: 첫 열이 필드 라벨이고 나머지 열이 각 항목
+function heuristicItems(markdown: string, requested: string[]): ChunkItem[] {
+  let best: ChunkItem[] = [];
+  let bestMatched = 1;
+  for (const table of parseMarkdownTables(markdown)) {
+    if (table.columns < 3) continue;
+    const grid = tableToGrid(table);
+    const rowOf: Record<string, number> = {};
+    for (const key of requested) {
+      const keys = (SYNONYMS[key]?.match?.length ? SYNONYMS[key].match : [key]).map(k => k.toLowerCase());
+      const r = grid.findIndex((row, i) => i > 0 && keys.some(k => row[0].toLowerCase().includes(k)));
+      if (r > 0) rowOf[key] = r;
+    }
+    const matched = Object.keys(rowOf).length;
+    if (matched <= bestMatched) continue;
+    bestMatched = matched;
+    best = grid[0].slice(1).map((label, c) => ({
+      label,
+      values: Object.fromEntries(requested.map(k => [k, rowOf[k] ? grid[rowOf[k]][c + 1] : ''])),
+    }));
+  }
+  return best;
+}
+
+// 모델 응답 → 항목 목록 ({"items": [{label, fields}]} 또는 단일 필드 맵)
+function toItems(parsed: any): ChunkItem[] {
+  const asValues = (obj: any): Record<string, string> =>
+    Object.fromEntries(Object.entries(obj && typeof obj === 'object' ? obj : {}).map(([k, v]) => [k, String(v ?? '')]));
+  if (Array.isArray(parsed?.items)) {
+    return parsed.items
+      .filter((it: any) => it && typeof it === 'object')
+      .map((it: any) => {
+        const { label, fields, ...rest } = it;
+        return { label: String(label ?? ''), values: asValues(fields && typeof fields === 'object' ? fields : rest) };
+      });
+  }
+  return parsed && typeof parsed === 'object' && Object.keys(parsed).length > 0 ? [{ label: '', values: asValues(parsed) }] : [];
+}
+
 // 영문 기반 동의어(인코딩 이슈 방지)
 const SYNONYMS: Record<string, { match: string[]; exclude: string[]; specialInstruction?: string }> = {
   manufacturer: { match: ['manufacturer', 'maker', 'brand', 'company'], exclude: [] },
@@ -123,20 +169,58 @@ function buildFieldInstructions(syns: typeof SYNONYMS) {
 
 export async function POST(request: NextRequest) {
   try {
+    const limited = rateLimit(request);
+    if (limited) {
+      return NextResponse.json(failureBody(limited), { status: 429, headers: { 'Retry-After': String(limited.retryAfter) } });
+    }
+    const declared = Number(request.headers.get('content-length'));
+    if (Number.isFinite(declared) && declared > LIMITS.maxUploadBytes) {
+      return NextResponse.json(
+        { error: `Request body is ${formatBytes(declared)} (max ${formatBytes(LIMITS.maxUploadBytes)}).`, code: 'UPLOAD_TOO_LARGE' },
+        { status: 413 }
+      );
+    }
     const body = await request.json();
+    // 프롬프트 템플릿: body.template 또는 ?template=
+    const loaded = await loadPromptTemplate(
+      typeof body?.template === 'string' ? body.template : request.nextUrl.searchParams.get('template'),
+    );
+    if ('error' in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status });
+    }
+    const { template } = loaded;
+    // 필드 스키마(타입/허용 범위/필수): body.schema가 없으면 기본 스키마
+    let schema: FieldSchema | undefined;
+    if (body?.schema !== undefined && body?.schema !== null) {
+      const parsedSchema = parseFieldSchema(body.schema);
+      if ('error' in parsedSchema) {
+        return NextResponse.json({ error: `Invalid schema: ${parsedSchema.error}` }, { status: 400 });
+      }
+      schema = parsedSchema.schema;
+    }
     let markdown = body?.markdown as string;
+    // output=json 변환 결과의 구조화된 표 (있으면 파이프 재파싱 대신 사용)
+    const tables = sanitizeTables(body?.tables);
     // 사용자 정의 필드/별칭
     const requestedFields: string[] = Array.isArray(body?.fields) && body.fields.length > 0
       ? body.fields.map((s: any) => String(s))
-      : DEFAULT_FIELDS;
+      : schema?.fields.map(f => f.name) ?? template.fields ?? DEFAULT_FIELDS;
     const aliases: Record<string, string> = (body?.aliases && typeof body.aliases === 'object') ? body.aliases : {};
+    // mode=items: 한 문서의 여러 장비(듀티/스탠바이/대안 모델 등)를 항목별로 추출
+    const multi = (typeof body?.mode === 'string' ? body.mode : request.nextUrl.searchParams.get('mode')) === 'items';
 
+    if ((typeof markdown !== 'string' || !markdown.trim()) && tables.length > 0) {
+      markdown = tablesToMarkdown(tables);
+    }
     if (typeof markdown !== 'string' || !markdown.trim()) {
-      return NextResponse.json({ error: 'markdown is required in body' }, { status: 400 });
+      return NextResponse.json({ error: 'markdown or tables is required in body' }, { status: 400 });
     }
 
-    if (markdown.length > 20000) {
-      markdown = markdown.slice(0, 20000);
+    // 긴 마크다운은 자르지 않고 페이지/표 경계에서 토큰 예산 단위 청크로 나눔 (EXTRACT_MAX_CHUNKS 초과분은 제외하고 보고)
+    const allChunks = splitMarkdownChunks(markdown);
+    const chunks = allChunks.slice(0, MAX_CHUNKS);
+    if (allChunks.length > chunks.length) {
+      console.warn(`[extract] ${allChunks.length} chunks, only the first ${MAX_CHUNKS} are extracted`);
     }
 
     // 요청 필드에 해당하는 동의어만 포함
@@ -153,66 +237,126 @@ export async function POST(request: NextRequest) {
       .filter(Boolean)
       .join('\n');
     const fieldInstructions = buildFieldInstructions(filteredSynonyms);
+    // 타입이 있는 필드는 기대 형식을 알려줌 (검증은 응답 후 validateFields로)
+    const typeInstructions = requestedFields
+      .map(k => specFor(k, schema))
+      .filter(spec => spec.type !== 'text')
+      .map(spec => {
+        if (spec.type === 'enum') return `'${spec.name}' must be one of ${JSON.stringify(spec.options ?? [])}.`;
+        if (spec.type === 'material') return `'${spec.name}' is a material name.`;
+        const unit = spec.unit ? ` with its unit (preferably ${spec.unit})` : '';
+        return spec.type === 'range'
+          ? `'${spec.name}' is a numeric range${unit}, e.g. "100-120".`
+          : `'${spec.name}' is a single number${unit}.`;
+      })
+      .join('\n');
 
     const instruction = [
-      'You will receive Markdown that contains one or more tables describing a pump and motor.',
+      template.extract,
       'Map the content to the following fixed fields. Use semantic matching and reasonable synonyms.',
       'Units should be preserved if present. If a field is missing, use an empty string.',
+      // 구조화된 표에서 생성된 마크다운: 병합 셀과 각주 표기를 설명
+      (/<!--\s*spans:/i.test(markdown)
+        ? 'Merged cells are repeated in every cell they cover and listed in an HTML comment below their table, e.g. <!-- spans: r1c2 rowspan=1 colspan=2 --> (1-based, row 1 = header row); read a merged value once. Lines directly below a table are its footnotes.'
+        : ''),
       matchExcludePrompt,
       fieldInstructions,
+      typeInstructions,
       (Object.keys(aliases).length > 0
         ? `If the markdown uses any of these old names ${JSON.stringify(Object.keys(aliases))}, map them to these new field names before returning.`
         : ''),
-      'Return STRICT JSON with exactly these keys and string values only:',
-      `${JSON.stringify(requestedFields)}`,
-      'Do not include any extra keys or commentary. JSON only.',
+      ...(multi
+        ? [
+          'The markdown may describe several equipment items (e.g. duty, standby and alternative models, often one table column per item).',
+          'Return STRICT JSON of the form {"items": [{"label": "...", "fields": {...}}]} with one entry per distinct item.',
+          'The label is a short name taken from the document (tag number, duty/standby, model name or column header).',
+          'Values shared by all items (e.g. the manufacturer) are repeated in every item. Each "fields" object has exactly these keys and string values only:',
+          `${JSON.stringify(requestedFields)}`,
+          'Do not include commentary. JSON only.',
+        ]
+        : [
+          'Return STRICT JSON with exactly these keys and string values only:',
+          `${JSON.stringify(requestedFields)}`,
+          'Do not include any extra keys or commentary. JSON only.',
+        ]),
     ].filter(Boolean).join('\n');
 
-    let parsed: any = {};
-    let usageInfo = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    // 구조화된 표는 문서 전체의 것이므로 청크에 그 표의 헤더 줄이 있을 때만 사용 (마크다운은 같은 표에서 생성됨)
+    const tableHeads = tables.map(t => tableToMarkdown(t).split('\n')[0]);
+    const tablesIn = (text: string) => tables.filter((_, i) => text.includes(tableHeads[i]));
 
+    const usageInfo = emptyUsage();
+    let llm: LLMProvider | null = null;
     try {
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error('OPENAI_API_KEY is not set');
-      }
-
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: `${instruction}\n\nMARKDOWN:\n${markdown}` }],
-        temperature: 0,
-      });
-
-      const raw = response.choices[0]?.message?.content || '';
-      parsed = coerceToPlainJson(raw);
-      usageInfo = {
-        prompt_tokens: response.usage?.prompt_tokens || 0,
-        completion_tokens: response.usage?.completion_tokens || 0,
-        total_tokens: response.usage?.total_tokens || 0,
-      };
+      llm = createLLMProvider();
     } catch (apiErr) {
-      // 모델 실패 시 휴리스틱으로 대체
+      // 모델 설정이 없으면 휴리스틱만 사용
     }
+    const limit = createLimiter(EXTRACT_CONCURRENCY);
+    const results = await Promise.all(chunks.map(chunk => limit(async () => {
+      let parsed: any = {};
+      try {
+        if (llm) {
+          const response = await llm.completeText(`${instruction}\n\nMARKDOWN:\n${chunk.text}`, {
+            template: template.name,
+            input: cacheKey([multi ? 'items' : 'fields', ...requestedFields, chunk.text]),
+          });
+          parsed = coerceToPlainJson(response.content);
+          addUsage(usageInfo, response.usage);
+        }
+      } catch (apiErr: any) {
+        // 모델 실패 시 휴리스틱으로 대체
+        console.warn(`[extract] chunk ${chunk.index + 1} failed:`, apiErr?.message || apiErr);
+      }
+      let status: ChunkReport['status'] = 'ok';
+      let items = multi ? toItems(parsed) : toItems(parsed).slice(0, 1);
+      if (items.length === 0) {
+        const single = () => [{ label: '', values: heuristicExtract(chunk.text, requestedFields, tablesIn(chunk.text)) }];
+        items = multi ? heuristicItems(chunk.text, requestedFields) : [];
+        if (items.length === 0) items = single();
+        status = 'heuristic';
+      }
+      // 별칭(이전명→새이름) 적용
+      for (const item of items) {
+        item.values = Object.fromEntries(Object.entries(item.values).map(([k, v]) => [aliases[k] || k, v]));
+      }
+      return { items, status };
+    })));
 
-    if (!parsed || Object.keys(parsed).length === 0) {
-      parsed = heuristicExtract(markdown, requestedFields);
-    }
+    // 청크별 후보 병합: 항목은 라벨로 묶고, 필드는 가장 많은 청크에서 나온 값 → 스키마 통과 값 → 앞쪽 청크 순
+    const { items: mergedItems, conflicts } = mergeChunkItems(
+      results.map((r, i) => ({ chunk: chunks[i].index, items: r.items })),
+      schema,
+    );
+    const { chunks: chunkReports, dropped } = reportChunks(allChunks, results.map(r => r.status));
 
-    // 별칭(이전명→새이름) 적용
-    if (aliases && typeof aliases === 'object') {
-      const mapped: Record<string, string> = {};
-      for (const [k, v] of Object.entries(parsed || {})) {
-        const mappedKey = (aliases as any)[k] || k;
-        mapped[mappedKey] = v as any;
+    const finishItem = (values: Record<string, string>, label = '') => {
+      const fields = normalizeFields(values, requestedFields);
+      const safe: Record<string, string> = {};
+      for (const k of requestedFields) safe[k] = (fields[k] ?? '').toString();
+      // 항목 라벨은 열 제목과 맞으면 같은 값이 여러 열에 있을 때 올바른 열을 고르게 함
+      const provenance = locateFields(markdown, safe, (k) => [k, ...(SYNONYMS[k]?.match ?? []), ...(label ? [label] : [])]);
+      // 숫자+단위 파싱 및 필드별 목표 단위(m³/h, m, kW 등)로 환산, 원문은 original에 유지
+      const normalized: Record<string, NormalizedValue> = {};
+      for (const k of requestedFields) {
+        if (safe[k].trim()) normalized[k] = normalizeValue(k, safe[k]);
       }
-      parsed = mapped;
-    }
-
-    const fields = normalizeFields(parsed || {}, requestedFields);
-    const safe: Record<string, string> = {};
-    for (const k of requestedFields) safe[k] = (fields[k] ?? '').toString();
+      // 스키마 검증: 잘못된 값/누락된 필수 값 (필드별 첫 오류)
+      const errors = validateFields(safe, requestedFields, schema);
+      return { fields: safe, errors, normalized, provenance };
+    };
 
-    return NextResponse.json({ fields: safe, order: requestedFields, usage: usageInfo });
+    return NextResponse.json({
+      ...(multi
+        ? { items: mergedItems.map(item => ({ label: item.label, ...finishItem(item.values, item.label) })) }
+        : finishItem(mergedItems[0]?.values ?? {})),
+      order: requestedFields,
+      conflicts,
+      chunks: chunkReports,
+      dropped,
+      usage: usageInfo,
+      template: templateRef(template),
+    });
   } catch (err: any) {
     return NextResponse.json(
       { error: 'Failed to extract fields', details: err?.message || String(err) },
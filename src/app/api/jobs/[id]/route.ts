@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJob, jobView } from '@/lib/jobs';
+
+export const runtime = 'nodejs';
+
+// Status, per-page progress and partial Markdown of a background job
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: `Job not found: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(jobView(job));
+}
+
+// Cancel a queued/running job; a finished job is deleted instead
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const result = await cancelJob(id);
+  if (!result) {
+    return NextResponse.json({ error: `Job not found: ${id}` }, { status: 404 });
+  }
+  if (result.deleted) {
+    return NextResponse.json({ id, deleted: true });
+  }
+  return NextResponse.json(jobView(result.job));
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultLLMProvider } from '@/lib/llm';
+import type { ConvertOptions } from '@/lib/convert';
+import { checkConvertRequest, failureBody, parseConvertParams, parseOutputFormat, readConvertInput } from '@/lib/convert-request';
+import { createJob } from '@/lib/jobs';
+import { loadPromptTemplate } from '@/lib/prompt-templates';
+import { rateLimit } from '@/lib/limits';
+
+export const runtime = 'nodejs';
+
+// Queue a conversion in the background. Accepts the same body and query
+// parameters as /api/convert and returns the job id to poll at /api/jobs/:id.
+export async function POST(request: NextRequest) {
+  try {
+    const limited = rateLimit(request);
+    if (limited) {
+      return NextResponse.json(failureBody(limited), { status: 429, headers: { 'Retry-After': String(limited.retryAfter) } });
+    }
+    const url = new URL(request.url);
+    const sp = url.searchParams;
+
+    const parsed = parseConvertParams(sp);
+    if ('error' in parsed) {
+      return NextResponse.json(failureBody(parsed), { status: parsed.status });
+    }
+    const format = parseOutputFormat(sp);
+    if ('error' in format) {
+      return NextResponse.json(failureBody(format), { status: format.status });
+    }
+    const loaded = await loadPromptTemplate(sp.get('template'));
+    if ('error' in loaded) {
+      return NextResponse.json(failureBody(loaded), { status: loaded.status });
+    }
+    const read = await readConvertInput(request);
+    if ('error' in read) {
+      return NextResponse.json(failureBody(read), { status: read.status });
+    }
+    const { input } = read;
+    const llm = getDefaultLLMProvider();
+    const invalid = checkConvertRequest(input, parsed.params, llm);
+    if (invalid) {
+      return NextResponse.json(failureBody(invalid), { status: invalid.status });
+    }
+
+    const options: ConvertOptions = {
+      ...parsed.params,
+      llm,
+      origin: `${url.protocol}//${url.host}`,
+      template: loaded.template,
+    };
+    const job = await createJob(input, options, Object.fromEntries(sp.entries()));
+    console.log(`Queued conversion job ${job.id}${job.fileName ? ` (${job.fileName})` : ''}`);
+    return NextResponse.json(
+      { id: job.id, status: job.status, url: `/api/jobs/${job.id}` },
+      { status: 202 }
+    );
+  } catch (err: any) {
+    console.error('Job creation error:', err);
+    return NextResponse.json(
+      { error: 'Failed to create conversion job.', details: err?.message || String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_TEMPLATE, listPromptTemplates } from '@/lib/prompt-templates';
+
+export const runtime = 'nodejs';
+// Templates are read from disk on every request
+export const dynamic = 'force-dynamic';
+
+// Prompt templates usable as ?template= on /api/convert, /api/jobs and /api/extract
+export async function GET() {
+  try {
+    return NextResponse.json({ templates: await listPromptTemplates(), default: DEFAULT_TEMPLATE });
+  } catch (err: any) {
+    console.error('Listing prompt templates failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to list prompt templates.', details: err?.message || String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -6,8 +6,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Upload, Copy, Download, Loader2, FileText, X } from 'lucide-react';
+import { Upload, Copy, Download, Loader2, FileText, FileSearch, X } from 'lucide-react';
 import { useToast } from '@/components/ui/toast';
+import { assemblePageMarkdown, stitchPages } from '@/lib/page-markdown';
+import type { Region, StructuredTable } from '@/lib/table-structure';
+import { DOCUMENT_ACCEPT, detectDocumentFormat } from '@/lib/document-formats';
+import { extractNumbers, normalizeNumber, type NumericWarning } from '@/lib/verify-numbers';
+import type { PageCorrection } from '@/lib/orientation';
+import type { FieldProvenance } from '@/lib/provenance';
+import { normalizeValue } from '@/lib/units';
+import { DEFAULT_SCHEMA, parseFieldSchema, validateValue, type FieldErrorCode, type FieldSchema, type FieldSpec } from '@/lib/field-schema';
 
 interface ExtractedFields {
   [key: string]: string;
@@ -15,6 +23,167 @@ interface ExtractedFields {
 
 const CASE_OPTIONS = ['case1', 'case2', 'case3'];
 
+type PageEntry = {
+  page: number;
+  content: string;
+  title?: string;
+  tables?: StructuredTable[];
+  regions?: Region[];
+  warnings?: NumericWarning[];
+  correction?: PageCorrection;
+  // Corrected image sent to the model, shown instead of the local preview
+  image?: string;
+};
+
+// Grid labels for the schema validation errors
+const FIELD_ERROR_LABELS: Record<FieldErrorCode, string> = {
+  required: '필수 값 누락',
+  'not-a-number': '숫자가 아님',
+  'not-a-range': '범위가 아님',
+  'unit-mismatch': '단위 불일치',
+  'out-of-range': '허용 범위 밖',
+  'not-an-option': '허용되지 않은 값',
+  'not-a-material': '재질명이 아님',
+};
+
+// Target of a pending extracted item that creates a new case
+const NEW_CASE = '__new__';
+
+type PendingItem = {
+  label: string;
+  fields: Record<string, string>;
+  provenance?: Record<string, FieldProvenance>;
+  target: string;
+};
+
+// Where a grid value came from; `image` is the page image of a batch document
+type ProvenanceEntry = FieldProvenance & { image?: string };
+
+// Outlines of the table regions / tiles that were sent to the model, drawn over a preview image
+function RegionOverlay({ regions }: { regions?: Region[] }) {
+  if (!regions || regions.length === 0) return null;
+  return (
+    <>
+      {regions.map((r, i) => (
+        <div
+          key={i}
+          className={`absolute pointer-events-none border-2 rounded-sm ${r.kind === 'tile' ? 'border-dashed border-amber-500/80' : r.kind === 'rest' ? 'border-dotted border-slate-400/80' : 'border-blue-500/80'}`}
+          style={{ left: `${r.x0 * 100}%`, top: `${r.y0 * 100}%`, width: `${(r.x1 - r.x0) * 100}%`, height: `${(r.y1 - r.y0) * 100}%` }}
+        >
+          <span className={`absolute top-0 left-0 px-1 text-[10px] text-white ${r.kind === 'tile' ? 'bg-amber-500/80' : r.kind === 'rest' ? 'bg-slate-400/80' : 'bg-blue-500/80'}`}>
+            {r.kind === 'tile' ? `타일 ${i + 1}` : r.kind === 'rest' ? `나머지 ${i + 1}` : `표 ${i + 1}`}
+          </span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+// Rotation/deskew the server applied before reading the page
+function CorrectionBadge({ correction }: { correction?: PageCorrection }) {
+  if (!correction) return null;
+  const parts = [
+    correction.pdfRotate ? `PDF 회전 ${correction.pdfRotate}°` : '',
+    correction.rotation ? `회전 ${correction.rotation}°` : '',
+    correction.skew ? `기울기 ${correction.skew > 0 ? '+' : ''}${correction.skew}°` : '',
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+  return (
+    <span
+      className="absolute bottom-1 left-1 rounded bg-emerald-600/90 px-1.5 py-0.5 text-[10px] text-white"
+      title="변환 전에 서버가 이미지 방향과 기울기를 보정했습니다"
+    >
+      자동 보정: {parts.join(' · ')}
+    </span>
+  );
+}
+
+// One document of a multi-file/ZIP upload
+interface BatchDoc {
+  index: number;
+  fileName: string;
+  status: 'converting' | 'done' | 'failed';
+  pages: PageEntry[];
+  failedPages: { page: number; error: string }[];
+  totalTokens: number;
+  error?: string;
+  // Case the document's fields are extracted into ('' = unassigned)
+  caseName: string;
+}
+
+// Browsers often leave the type of HEIC/TIFF files empty; the server sniffs the real format
+const IMAGE_FILE_EXT = /\.(png|jpe?g|gif|webp|bmp|tiff?|heic|heif)$/i;
+const isImageFile = (f: File) => f.type.startsWith('image/') || IMAGE_FILE_EXT.test(f.name);
+
+const isZipFile = (f: File) =>
+  f.name.toLowerCase().endsWith('.zip') || ['application/zip', 'application/x-zip-compressed'].includes(f.type);
+
+// Usage as reported by the API; `cost` is USD from the server's model price table
+type UsageInfo = { prompt_tokens: number; completion_tokens: number; total_tokens: number; cost?: number };
+
+// KRW shown next to USD, at the rate the UI has always used
+const KRW_PER_USD = 1400;
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+
+const formatCostKRW = (usd: number) => `약 ${Math.round(usd * KRW_PER_USD * 1000) / 1000}원`;
+
+const usageSummary = (u: UsageInfo) =>
+  `토큰 사용량: 총 ${u.total_tokens}개 (프롬프트 ${u.prompt_tokens}개 + 응답 ${u.completion_tokens}개)\n비용: ${formatCost(u.cost || 0)} (${formatCostKRW(u.cost || 0)})`;
+
+// Read an NDJSON response body and hand every parsed line to `onEvent`
+async function readNdjson(body: ReadableStream<Uint8Array>, onEvent: (ev: any) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let nl;
+    while ((nl = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, nl).trim();
+      buffer = buffer.slice(nl + 1);
+      if (line) onEvent(JSON.parse(line));
+    }
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
+
+// Open a PDF with pdfjs in the browser. Encrypted files without the right
+// password reject with pdfjs' PasswordException.
+async function openClientPdf(file: File, password?: string) {
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
+  if ((pdfjsLib as any)?.GlobalWorkerOptions) {
+    (pdfjsLib as any).GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+  }
+  const data = new Uint8Array(await file.arrayBuffer());
+  const loadingTask = (pdfjsLib as any).getDocument({
+    data,
+    useWorkerFetch: true,
+    useSystemFonts: true,
+    standardFontDataUrl: '/pdfjs/standard_fonts/',
+    cMapUrl: '/pdfjs/cmaps/',
+    cMapPacked: true,
+    ...(password ? { password } : {}),
+  });
+  return loadingTask.promise;
+}
+
+// pdfjs code 2 / server PDF_PASSWORD_INCORRECT: a password was given but is wrong
+type PasswordPrompt = 'required' | 'incorrect';
+
+// Toast titles for the server's request limit codes (413/415/429)
+const LIMIT_TITLES: Record<string, string> = {
+  UPLOAD_TOO_LARGE: '업로드 용량 초과',
+  TOO_MANY_PAGES: '페이지 수 초과',
+  IMAGE_TOO_LARGE: '이미지 해상도 초과',
+  SHEET_TOO_LARGE: '시트 크기 초과',
+  UNSUPPORTED_FILE_TYPE: '지원하지 않는 파일 형식',
+  RATE_LIMITED: '요청이 너무 많습니다. 잠시 후 다시 시도하세요',
+};
+
 export default function Home() {
   const [dataUrl, setDataUrl] = useState<string | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
@@ -22,28 +191,65 @@ export default function Home() {
   const [pdfTotalPages, setPdfTotalPages] = useState<number | null>(null);
   const [includePages, setIncludePages] = useState<string>('');
   const [excludePages, setExcludePages] = useState<string>('');
+  const [convertMode, setConvertMode] = useState<'vision' | 'text' | 'auto'>('vision');
+  const [useConvertCache, setUseConvertCache] = useState(true);
+  // Merge tables that continue across pages (server stitch=1 and local re-assembly)
+  const [stitchTables, setStitchTables] = useState(true);
+  // USD cap per conversion ('' = no cap); pages past it are not sent to the model
+  const [maxCost, setMaxCost] = useState('');
+  // Prompt template for conversion and extraction (served by /api/templates)
+  const [promptTemplate, setPromptTemplate] = useState('generic');
+  const [templates, setTemplates] = useState<{ name: string; version: string; title: string }[]>([]);
+  // Template and version that produced the current markdown
+  const [usedTemplate, setUsedTemplate] = useState<{ name: string; version: string } | null>(null);
+  const templateQuery = promptTemplate !== 'generic' ? `?template=${encodeURIComponent(promptTemplate)}` : '';
   const [pdfPageImages, setPdfPageImages] = useState<{ page: number; url: string }[]>([]);
   const [isRenderingPdf, setIsRenderingPdf] = useState(false);
+  // Password of the selected encrypted PDF, sent with preview rendering and /api/convert
+  const [pdfPassword, setPdfPassword] = useState('');
+  const [pdfPasswordInput, setPdfPasswordInput] = useState('');
+  const [pdfPasswordPrompt, setPdfPasswordPrompt] = useState<PasswordPrompt | null>(null);
   const [markdown, setMarkdown] = useState<string>('');
   const [cases, setCases] = useState<{ [caseName: string]: ExtractedFields | null }>({});
   const [selectedCase, setSelectedCase] = useState<string>(CASE_OPTIONS[0]);
   const [isConverting, setIsConverting] = useState(false);
+  const [convertProgress, setConvertProgress] = useState<{ rendered: number; done: number; cached: number; total: number } | null>(null);
+  const [pageResults, setPageResults] = useState<PageEntry[]>([]);
+  // Regions the server cropped from each pasted/uploaded image, keyed by data URL
+  const [imageRegions, setImageRegions] = useState<Record<string, Region[]>>({});
+  // Server-corrected versions of pasted images (rotation/deskew), keyed like imageRegions
+  const [imageCorrections, setImageCorrections] = useState<Record<string, { image?: string; correction?: PageCorrection }>>({});
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchDocs, setBatchDocs] = useState<BatchDoc[]>([]);
+  const [activeBatchDoc, setActiveBatchDoc] = useState<number | null>(null);
+  const [failedPages, setFailedPages] = useState<{ page: number; error: string }[]>([]);
+  // Pages the server's pre-classifier found without tables (not sent to the model)
+  const [skippedPages, setSkippedPages] = useState<{ page: number; reason: string }[]>([]);
   const [isExtracting, setIsExtracting] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
   const [tableCopySuccess, setTableCopySuccess] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropZoneRef = useRef<HTMLDivElement>(null);
   const gridContainerRef = useRef<HTMLDivElement>(null);
+  const markdownRef = useRef<HTMLTextAreaElement>(null);
   const [caseOptions, setCaseOptions] = useState<string[]>(CASE_OPTIONS);
   const [changedFields, setChangedFields] = useState<{ [caseName: string]: Set<string> }>({});
   const [editingCell, setEditingCell] = useState<{ caseName: string; field: string } | null>(null);
   const [editingValue, setEditingValue] = useState<string>('');
-  const DEFAULT_FIELDS = [
-    'manufacturer', 'pump model name', 'rated flow',
-    'max flow', 'min flow', 'normal flow', 'TDH', 'casing material',
-    'shaft material', 'impeller material', 'shaft power', 'pump efficiency', 'shutoff TDH'
-  ];
+  // Source of each extracted value per case (from /api/extract), and the one shown below the Markdown panel
+  const [provenance, setProvenance] = useState<{ [caseName: string]: Record<string, ProvenanceEntry> }>({});
+  const [sourceView, setSourceView] = useState<{ caseName: string; field: string; source: ProvenanceEntry } | null>(null);
+  // Items found by a multi-item extraction, each waiting for its target case ('' = skip)
+  const [pendingItems, setPendingItems] = useState<PendingItem[] | null>(null);
+  // Grid shows values as extracted, or converted to each field's unit (m³/h, m, kW, ...)
+  const [showNormalized, setShowNormalized] = useState(false);
+  const DEFAULT_FIELDS = DEFAULT_SCHEMA.fields.map(f => f.name);
   const [fields, setFields] = useState<string[]>(DEFAULT_FIELDS);
+  // Type, allowed range and required flag per field (fields without a spec are free text)
+  const [fieldSpecs, setFieldSpecs] = useState<Record<string, FieldSpec>>(
+    () => Object.fromEntries(DEFAULT_SCHEMA.fields.map(f => [f.name, f]))
+  );
+  const schemaInputRef = useRef<HTMLInputElement>(null);
   const [editingFieldIndex, setEditingFieldIndex] = useState<number | null>(null);
   const [editingFieldName, setEditingFieldName] = useState<string>('');
   // Track user intent about fields (deleted or renamed)
@@ -65,7 +271,12 @@ export default function Home() {
   const fileToDataUrl = useCallback((file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
+      reader.onload = () => {
+        const url = reader.result as string;
+        // /api/convert only takes image data URLs; keep untyped HEIC/TIFF files recognisable
+        const ext = file.name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || 'png';
+        resolve(url.startsWith('data:image/') ? url : url.replace(/^data:[^;,]*/, `data:image/${ext === 'tif' ? 'tiff' : ext}`));
+      };
       reader.onerror = reject;
       reader.readAsDataURL(file);
     });
@@ -74,6 +285,8 @@ export default function Home() {
   const handleImageBlob = useCallback(async (blob: Blob) => {
     const fakeFile = new File([blob], 'pasted.png', { type: blob.type || 'image/png' });
     const url = await fileToDataUrl(fakeFile);
+    setBatchFiles([]);
+    setBatchDocs([]);
     setDataUrl(url);
     setUploadedFile(null);
     setImageDataUrls(prev => [...prev, url]);
@@ -89,9 +302,67 @@ export default function Home() {
     });
   }, []);
 
+  // Count pages and render every page of a selected PDF; asks for the password when encrypted
+  const loadPdfPreview = useCallback(async (file: File, password: string) => {
+    try {
+      const pdf = await openClientPdf(file, password);
+      setPdfPasswordPrompt(null);
+      setPdfTotalPages(pdf.numPages || null);
+      // Auto-render all pages preview by default
+      const total = pdf.numPages;
+      const results: { page: number; url: string }[] = [];
+      for (let p = 1; p <= total; p++) {
+        const page = await pdf.getPage(p);
+        const viewport = page.getViewport({ scale: 1.0 });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) continue;
+        const renderTask: any = (page as any).render({ canvasContext: ctx, viewport });
+        await renderTask.promise;
+        const url = canvas.toDataURL('image/png');
+        results.push({ page: p, url });
+      }
+      setPdfPageImages(results);
+      return true;
+    } catch (e: any) {
+      setPdfTotalPages(null);
+      if (e?.name === 'PasswordException') {
+        setPdfPasswordPrompt(e.code === 2 ? 'incorrect' : 'required');
+        addToast({
+          title: e.code === 2 ? 'PDF 비밀번호가 올바르지 않습니다' : '암호로 보호된 PDF',
+          description: 'PDF 비밀번호를 입력해주세요.',
+          type: 'error'
+        });
+        return false;
+      }
+      console.error('Failed to read PDF page count:', e);
+      addToast({
+        title: 'PDF 페이지 읽기 실패',
+        description: e?.message || '파일을 확인해주세요.',
+        type: 'error'
+      });
+      return false;
+    }
+  }, [addToast]);
+
+  // Retry opening the selected PDF with the entered password
+  const handleUnlockPdf = async () => {
+    if (!uploadedFile || !pdfPasswordInput) return;
+    setIsRenderingPdf(true);
+    try {
+      if (await loadPdfPreview(uploadedFile, pdfPasswordInput)) setPdfPassword(pdfPasswordInput);
+    } finally {
+      setIsRenderingPdf(false);
+    }
+  };
+
   const handleFileChange = useCallback(async (file: File) => {
     if (!file) return;
-    if (file.type.startsWith('image/')) {
+    setBatchFiles([]);
+    setBatchDocs([]);
+    if (isImageFile(file)) {
       const url = await fileToDataUrl(file);
       setDataUrl(url);
       setUploadedFile(null);
@@ -105,54 +376,53 @@ export default function Home() {
       setDataUrl(null);
       setImageDataUrls([]);
       setPdfPageImages([]);
+      setPageResults([]);
+      setFailedPages([]);
+      setSkippedPages([]);
+      setIncludePages('');
+      setExcludePages('');
+      setPdfPassword('');
+      setPdfPasswordInput('');
+      setPdfPasswordPrompt(null);
+      await loadPdfPreview(file, '');
+    } else if (detectDocumentFormat(file.name, file.type)) {
+      // Excel/Word/HTML/CSV: tables are read on the server without a model call
+      setUploadedFile(file);
+      setDataUrl(null);
+      setImageDataUrls([]);
+      setPdfPageImages([]);
+      setPageResults([]);
+      setFailedPages([]);
+      setSkippedPages([]);
+      setPdfTotalPages(null);
       setIncludePages('');
       setExcludePages('');
-      // Count total pages of the selected PDF
-      try {
-        const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
-        await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
-        if ((pdfjsLib as any)?.GlobalWorkerOptions) {
-          (pdfjsLib as any).GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
-        }
-        const data = new Uint8Array(await file.arrayBuffer());
-        const loadingTask = (pdfjsLib as any).getDocument({
-          data,
-          useWorkerFetch: true,
-          useSystemFonts: true,
-          standardFontDataUrl: '/pdfjs/standard_fonts/',
-          cMapUrl: '/pdfjs/cmaps/',
-          cMapPacked: true,
-        });
-        const pdf = await loadingTask.promise;
-        setPdfTotalPages(pdf.numPages || null);
-        // Auto-render all pages preview by default
-        const total = pdf.numPages;
-        const results: { page: number; url: string }[] = [];
-        for (let p = 1; p <= total; p++) {
-          const page = await pdf.getPage(p);
-          const viewport = page.getViewport({ scale: 1.0 });
-          const canvas = document.createElement('canvas');
-          canvas.width = Math.ceil(viewport.width);
-          canvas.height = Math.ceil(viewport.height);
-          const ctx = canvas.getContext('2d');
-          if (!ctx) continue;
-          const renderTask: any = (page as any).render({ canvasContext: ctx, viewport });
-          await renderTask.promise;
-          const url = canvas.toDataURL('image/png');
-          results.push({ page: p, url });
-        }
-        setPdfPageImages(results);
-      } catch (e: any) {
-        console.error('Failed to read PDF page count:', e);
-        setPdfTotalPages(null);
-        addToast({
-          title: 'PDF 페이지 읽기 실패',
-          description: e?.message || '파일을 확인해주세요.',
-          type: 'error'
-        });
-      }
     }
-  }, [fileToDataUrl]);
+  }, [fileToDataUrl, loadPdfPreview]);
+
+  // Several files or a ZIP archive are converted together as a batch
+  const handleFilesSelected = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && !isZipFile(files[0])) {
+      await handleFileChange(files[0]);
+      return;
+    }
+    if (files.every(isImageFile)) {
+      for (const f of files) await handleFileChange(f);
+      return;
+    }
+    setBatchFiles(files);
+    setBatchDocs([]);
+    setActiveBatchDoc(null);
+    setUploadedFile(null);
+    setDataUrl(null);
+    setImageDataUrls([]);
+    setPdfPageImages([]);
+    setPageResults([]);
+    setFailedPages([]);
+    setSkippedPages([]);
+    setPdfTotalPages(null);
+  }, [handleFileChange]);
 
   // Parse page spec: e.g., "1,3,5-7"
   const parsePageSpec = useCallback((spec: string, total: number): number[] => {
@@ -182,21 +452,7 @@ export default function Home() {
     setIsRenderingPdf(true);
     setPdfPageImages([]);
     try {
-      const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
-      await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
-      if ((pdfjsLib as any)?.GlobalWorkerOptions) {
-        (pdfjsLib as any).GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
-      }
-      const data = new Uint8Array(await uploadedFile.arrayBuffer());
-      const loadingTask = (pdfjsLib as any).getDocument({
-        data,
-        useWorkerFetch: true,
-        useSystemFonts: true,
-        standardFontDataUrl: '/pdfjs/standard_fonts/',
-        cMapUrl: '/pdfjs/cmaps/',
-        cMapPacked: true,
-      });
-      const pdf = await loadingTask.promise;
+      const pdf = await openClientPdf(uploadedFile, pdfPassword);
       const total = pdf.numPages;
       const include = parsePageSpec(includePages, total);
       const exclude = new Set(parsePageSpec(excludePages, total));
@@ -232,6 +488,10 @@ export default function Home() {
         });
       }
     } catch (e: any) {
+      if (e?.name === 'PasswordException') {
+        setPdfPasswordPrompt(e.code === 2 ? 'incorrect' : 'required');
+        return;
+      }
       console.error('PDF preview render failed:', e);
       addToast({
         title: '미리보기 실패',
@@ -241,7 +501,7 @@ export default function Home() {
     } finally {
       setIsRenderingPdf(false);
     }
-  }, [uploadedFile, includePages, excludePages, parsePageSpec, addToast]);
+  }, [uploadedFile, pdfPassword, includePages, excludePages, parsePageSpec, addToast]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -249,48 +509,223 @@ export default function Home() {
 
   const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
-    const file = e.dataTransfer?.files?.[0];
-    if (file) await handleFileChange(file);
-  }, [handleFileChange]);
+    await handleFilesSelected(Array.from(e.dataTransfer?.files || []));
+  }, [handleFilesSelected]);
+
+  // Stream a PDF/document conversion (NDJSON events) and merge the page results into `basePages`
+  const streamFileConversion = async (
+    file: File,
+    pagesSpec: string,
+    excludeSpec: string,
+    basePages: PageEntry[],
+    forceSpec = '',
+  ) => {
+    const form = new FormData();
+    form.append('file', file);
+    // Sent as a form field so it never ends up in URLs or access logs
+    if (pdfPassword) form.append('password', pdfPassword);
+    const params = new URLSearchParams();
+    if (pagesSpec) params.set('pages', pagesSpec);
+    if (excludeSpec) params.set('exclude', excludeSpec);
+    if (forceSpec) params.set('force', forceSpec);
+    if (convertMode !== 'vision') params.set('mode', convertMode);
+    if (!useConvertCache) params.set('cache', '0');
+    if (!stitchTables) params.set('stitch', '0');
+    if (Number(maxCost) > 0) params.set('maxCost', maxCost);
+    if (promptTemplate !== 'generic') params.set('template', promptTemplate);
+    // Stream per-page progress so the markdown fills in page by page
+    params.set('stream', '1');
+    // Structured tables are passed to field extraction instead of re-parsing the markdown
+    params.set('output', 'json');
+    const response = await fetch(`/api/convert?${params.toString()}`, {
+      method: 'POST',
+      body: form,
+    });
+    if (!response.ok || !response.body) {
+      const json = await response.json().catch(() => ({}));
+      const err: any = new Error(json.error || json.details || 'Server error');
+      err.code = json.code;
+      throw err;
+    }
+    const pages = [...basePages];
+    const failed: { page: number; error: string }[] = [];
+    const skipped: { page: number; reason: string }[] = [];
+    const overBudget: number[] = [];
+    const progress = { rendered: 0, done: 0, cached: 0, total: 0 };
+    let usage = null as UsageInfo | null;
+    let streamError: any = null;
+    const handleEvent = (ev: any) => {
+      if (ev.type === 'start') {
+        progress.total = ev.pages?.length || 0;
+        if (ev.template) setUsedTemplate(ev.template);
+      } else if (ev.type === 'page-rendered') {
+        progress.rendered++;
+      } else if (ev.type === 'page') {
+        progress.done++;
+        if (ev.cached) progress.cached++;
+        const idx = pages.findIndex(p => p.page === ev.page);
+        const entry = { page: ev.page, content: ev.content || '', title: ev.title, tables: ev.tables || [], regions: ev.regions, warnings: ev.warnings, correction: ev.correction, image: ev.image };
+        if (idx >= 0) pages[idx] = entry;
+        else pages.push(entry);
+        setMarkdown(assemblePageMarkdown(pages, { stitch: stitchTables }));
+      } else if (ev.type === 'page-error') {
+        progress.done++;
+        failed.push({ page: ev.page, error: ev.error });
+      } else if (ev.type === 'page-skipped') {
+        progress.done++;
+        skipped.push({ page: ev.page, reason: ev.reason });
+      } else if (ev.type === 'page-over-budget') {
+        progress.done++;
+        overBudget.push(ev.page);
+      } else if (ev.type === 'done') {
+        usage = ev.usage || null;
+      } else if (ev.type === 'error') {
+        streamError = ev;
+      }
+      setConvertProgress({ ...progress });
+    };
+    await readNdjson(response.body, handleEvent);
+    return { pages, failed, skipped, overBudget, usage, streamError, cachedCount: progress.cached };
+  };
+
+  // Show a converted batch document in the Markdown panel
+  const showBatchDoc = (doc: BatchDoc) => {
+    setActiveBatchDoc(doc.index);
+    setPageResults(doc.pages);
+    setFailedPages([]);
+    setSkippedPages([]);
+    setMarkdown(assemblePageMarkdown(doc.pages, { stitch: stitchTables }));
+  };
+
+  // Convert all files of a multi-file/ZIP upload in one streamed request
+  const convertBatch = async () => {
+    setBatchDocs([]);
+    setActiveBatchDoc(null);
+    setPageResults([]);
+    setFailedPages([]);
+    setSkippedPages([]);
+    const form = new FormData();
+    batchFiles.forEach(f => form.append('file', f));
+    const params = new URLSearchParams({ stream: '1', output: 'json' });
+    if (convertMode !== 'vision') params.set('mode', convertMode);
+    if (!useConvertCache) params.set('cache', '0');
+    if (!stitchTables) params.set('stitch', '0');
+    if (Number(maxCost) > 0) params.set('maxCost', maxCost);
+    if (promptTemplate !== 'generic') params.set('template', promptTemplate);
+    const response = await fetch(`/api/convert?${params.toString()}`, {
+      method: 'POST',
+      body: form,
+    });
+    if (!response.ok || !response.body) {
+      const json = await response.json().catch(() => ({}));
+      const err: any = new Error(json.error || json.details || 'Server error');
+      err.code = json.code;
+      throw err;
+    }
+    let docs: BatchDoc[] = [];
+    let skipped: { name: string; reason: string }[] = [];
+    let totalUsage: UsageInfo | null = null;
+    let overBudgetPages = 0;
+    let streamError: any = null;
+    const update = (index: number, patch: (doc: BatchDoc) => BatchDoc) => {
+      docs = docs.map(d => (d.index === index ? patch(d) : d));
+      setBatchDocs(docs);
+    };
+    await readNdjson(response.body, (ev) => {
+      if (ev.type === 'batch-start') {
+        skipped = ev.skipped || [];
+        if (ev.template) setUsedTemplate(ev.template);
+        // Documents are pre-assigned to the existing cases in upload order
+        docs = (ev.documents || []).map((d: any, i: number) => ({
+          index: d.index,
+          fileName: d.fileName || `document ${d.index + 1}`,
+          status: 'converting',
+          pages: [],
+          failedPages: [],
+          totalTokens: 0,
+          caseName: caseOptions[i] ?? '',
+        }));
+        setBatchDocs(docs);
+      } else if (ev.type === 'page') {
+        const entry = { page: ev.page, content: ev.content || '', title: ev.title, tables: ev.tables || [], regions: ev.regions, warnings: ev.warnings, correction: ev.correction, image: ev.image };
+        update(ev.document, d => ({ ...d, pages: [...d.pages, entry] }));
+      } else if (ev.type === 'page-error') {
+        update(ev.document, d => ({ ...d, failedPages: [...d.failedPages, { page: ev.page, error: ev.error }] }));
+      } else if (ev.type === 'page-over-budget') {
+        overBudgetPages++;
+      } else if (ev.type === 'done') {
+        update(ev.document, d => ({ ...d, status: 'done', totalTokens: ev.usage?.total_tokens || 0 }));
+      } else if (ev.type === 'document-error') {
+        update(ev.document, d => ({ ...d, status: 'failed', error: ev.error }));
+      } else if (ev.type === 'batch-done') {
+        totalUsage = ev.usage || null;
+      } else if (ev.type === 'error') {
+        streamError = ev;
+      }
+    });
+    if (streamError) throw new Error(streamError.details || streamError.error || 'Server error');
+    const first = docs.find(d => d.pages.length > 0);
+    if (first) showBatchDoc(first);
+    else setMarkdown('');
+    const converted = docs.filter(d => d.status === 'done').length;
+    addToast({
+      title: '일괄 변환 완료',
+      description: [
+        `${converted}/${docs.length}개 문서 변환`,
+        totalUsage ? usageSummary(totalUsage) : '',
+        overBudgetPages > 0 ? `비용 한도에 도달해 ${overBudgetPages}페이지를 변환하지 않았습니다.` : '',
+        skipped.length > 0 ? `건너뛴 파일: ${skipped.map(f => f.name).join(', ')}` : '',
+      ].filter(Boolean).join('\n'),
+      type: converted === docs.length ? 'success' : 'error',
+      duration: 10000
+    });
+  };
 
   const handleConvert = async () => {
-    if (imageDataUrls.length === 0 && !dataUrl && !uploadedFile) return;
+    if (imageDataUrls.length === 0 && !dataUrl && !uploadedFile && batchFiles.length === 0) return;
     
     setIsConverting(true);
     setMarkdown('Converting...');
     
     try {
+      if (batchFiles.length > 0) {
+        await convertBatch();
+        return;
+      }
       // If multiple pasted images exist, convert them sequentially and aggregate
       if (imageDataUrls.length > 0 && !uploadedFile) {
-        let total_tokens = 0, prompt_tokens = 0, completion_tokens = 0;
+        const usage: UsageInfo = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0 };
         const parts: string[] = [];
         for (let i = 0; i < imageDataUrls.length; i++) {
           const u = imageDataUrls[i];
-          const resp = await fetch('/api/convert', {
+          const resp = await fetch(`/api/convert${templateQuery}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ dataUrl: u })
           });
           const j = await resp.json();
           if (!resp.ok) throw new Error(j.error || j.details || `이미지 ${i + 1} 처리 실패`);
+          if (j.template) setUsedTemplate(j.template);
+          const regions = j.pages?.[0]?.regions;
+          setImageRegions(prev => ({ ...prev, [u]: regions || [] }));
+          setImageCorrections(prev => ({ ...prev, [u]: { image: j.pages?.[0]?.image, correction: j.pages?.[0]?.correction } }));
           const content = (j.markdown || '').trim();
           if (content && !/No tables detected/i.test(content)) {
             parts.push(`### Image ${i + 1}\n\n${content}`);
           }
           if (j.usage) {
-            prompt_tokens += j.usage.prompt_tokens || 0;
-            completion_tokens += j.usage.completion_tokens || 0;
-            total_tokens += j.usage.total_tokens || 0;
+            usage.prompt_tokens += j.usage.prompt_tokens || 0;
+            usage.completion_tokens += j.usage.completion_tokens || 0;
+            usage.total_tokens += j.usage.total_tokens || 0;
+            usage.cost = (usage.cost || 0) + (j.usage.cost || 0);
           }
         }
         const combined = parts.length ? parts.join('\n\n') : 'No tables detected in the images.';
         setMarkdown(combined);
-        if (total_tokens > 0) {
-          const estimatedCost = (total_tokens / 1000) * 0.00015;
-          const costKRW = Math.round(estimatedCost * 1400 * 1000) / 1000;
+        if (usage.total_tokens > 0) {
           addToast({
             title: '변환 완료',
-            description: `토큰 사용량: ${total_tokens} (프롬프트 ${prompt_tokens} + 응답 ${completion_tokens})\n예상 비용: 약 ${costKRW}원`,
+            description: usageSummary(usage),
             type: 'success',
             duration: 10000
           });
@@ -305,29 +740,53 @@ export default function Home() {
         return;
       }
       if (uploadedFile) {
-        const form = new FormData();
-        form.append('file', uploadedFile);
-        const params = new URLSearchParams();
-        if (includePages.trim()) params.set('pages', includePages.trim());
-        if (excludePages.trim()) params.set('exclude', excludePages.trim());
-        const qs = params.toString();
-        const url = qs ? `/api/convert?${qs}` : '/api/convert';
-        const response = await fetch(url, {
-          method: 'POST',
-          body: form,
-        });
-        const json = await response.json();
-        if (!response.ok) {
-          throw new Error(json.error || json.details || 'Server error');
+        setPageResults([]);
+        setFailedPages([]);
+        setSkippedPages([]);
+        const { pages, failed, skipped, overBudget, usage, streamError, cachedCount } = await streamFileConversion(uploadedFile, includePages.trim(), excludePages.trim(), []);
+        setPageResults(pages);
+        setFailedPages(failed);
+        setSkippedPages(skipped);
+        if (streamError) {
+          // Keep the pages that were already converted
+          if (pages.length === 0) {
+            const err: any = new Error(streamError.details || streamError.error || 'Server error');
+            err.code = streamError.code;
+            throw err;
+          }
+          addToast({
+            title: '일부 페이지만 변환됨',
+            description: `${pages.length}페이지까지 변환 후 실패했습니다: ${streamError.details || streamError.error}`,
+            type: 'error',
+            duration: 10000
+          });
+          return;
         }
-        setMarkdown(json.markdown || 'No content extracted');
-        if (json.usage) {
-          const { prompt_tokens, completion_tokens, total_tokens } = json.usage;
-          const estimatedCost = (total_tokens / 1000) * 0.00015;
-          const costKRW = Math.round(estimatedCost * 1400 * 1000) / 1000;
+        if (pages.length === 0 && failed.length > 0) {
+          setMarkdown('');
+          throw new Error(`모든 페이지 변환에 실패했습니다: ${failed[0].error}`);
+        }
+        setMarkdown(assemblePageMarkdown(pages, { stitch: stitchTables }));
+        if (failed.length > 0) {
+          addToast({
+            title: '일부 페이지 실패',
+            description: `실패한 페이지: ${failed.map(f => f.page).join(', ')} — 아래 '실패 페이지 재시도'로 다시 변환할 수 있습니다.`,
+            type: 'error',
+            duration: 10000
+          });
+        }
+        if (overBudget.length > 0) {
+          addToast({
+            title: '비용 한도 도달',
+            description: `최대 비용 $${maxCost}에 도달해 ${overBudget.join(', ')} 페이지는 변환하지 않았습니다.`,
+            type: 'error',
+            duration: 10000
+          });
+        }
+        if (usage) {
           addToast({
             title: '변환 완료',
-            description: `토큰 사용량 총 ${total_tokens} (프롬프트 ${prompt_tokens} + 응답 ${completion_tokens})\\n예상 비용: 약 ${costKRW}원`,
+            description: `${usageSummary(usage)}${cachedCount > 0 ? ` · 캐시 사용 ${cachedCount}페이지` : ''}${skipped.length > 0 ? ` · 표 없음으로 건너뜀 ${skipped.length}페이지` : ''}`,
             type: 'success',
             duration: 10000
           });
@@ -341,7 +800,7 @@ export default function Home() {
         }
         return;
       }
-      const response = await fetch('/api/convert', {
+      const response = await fetch(`/api/convert${templateQuery}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ dataUrl })
@@ -350,19 +809,19 @@ export default function Home() {
       const json = await response.json();
       
       if (!response.ok) {
-        throw new Error(json.error || json.details || 'Server error');
+        const err: any = new Error(json.error || json.details || 'Server error');
+        err.code = json.code;
+        throw err;
       }
       
       setMarkdown(json.markdown || 'No content extracted');
+      if (json.template) setUsedTemplate(json.template);
       
       // Show token usage information
       if (json.usage) {
-        const { prompt_tokens, completion_tokens, total_tokens } = json.usage;
-        const estimatedCost = (total_tokens / 1000) * 0.00015; // GPT-4o-mini pricing approximately
-        const costKRW = Math.round(estimatedCost * 1400 * 1000) / 1000;
         addToast({
           title: '이미지 → 마크다운 변환 완료',
-          description: `토큰 사용량: 총 ${total_tokens}개 (프롬프트 ${prompt_tokens}개 + 응답 ${completion_tokens}개)\n예상 비용: ${costKRW}원`,
+          description: usageSummary(json.usage),
           type: 'success',
           duration: 10000
         });
@@ -375,15 +834,83 @@ export default function Home() {
         });
       }
     } catch (err: any) {
+      if (err.code === 'PDF_PASSWORD_REQUIRED' || err.code === 'PDF_PASSWORD_INCORRECT') {
+        setPdfPasswordPrompt(err.code === 'PDF_PASSWORD_INCORRECT' ? 'incorrect' : 'required');
+      }
       console.error('Conversion failed:', err);
       setMarkdown(`Error: ${err.message}`);
       addToast({
-        title: '변환 실패',
+        title: LIMIT_TITLES[err.code] || '변환 실패',
         description: err.message,
         type: 'error'
       });
     } finally {
       setIsConverting(false);
+      setConvertProgress(null);
+    }
+  };
+
+  // Send pages the pre-classifier skipped to the model anyway
+  const handleConvertSkippedPages = async () => {
+    if (!uploadedFile || skippedPages.length === 0) return;
+    setIsConverting(true);
+    try {
+      const spec = skippedPages.map(s => s.page).join(',');
+      const { pages, failed, streamError } = await streamFileConversion(uploadedFile, spec, '', pageResults, spec);
+      const converted = new Set(pages.map(p => p.page));
+      setPageResults(pages);
+      setSkippedPages(prev => prev.filter(s => !converted.has(s.page)));
+      if (failed.length > 0) setFailedPages(prev => [...prev.filter(f => !failed.some(n => n.page === f.page)), ...failed]);
+      setMarkdown(assemblePageMarkdown(pages, { stitch: stitchTables }));
+      if (streamError) throw new Error(streamError.details || streamError.error || 'Server error');
+      addToast({
+        title: '건너뛴 페이지 변환 완료',
+        description: `${skippedPages.length}개 페이지를 모델로 변환했습니다.`,
+        type: failed.length > 0 ? 'error' : 'success',
+        duration: 8000
+      });
+    } catch (err: any) {
+      console.error('Converting skipped pages failed:', err);
+      addToast({
+        title: '건너뛴 페이지 변환 실패',
+        description: err.message,
+        type: 'error'
+      });
+    } finally {
+      setIsConverting(false);
+      setConvertProgress(null);
+    }
+  };
+
+  // Re-run only the pages that failed in the last PDF conversion
+  const handleRetryFailedPages = async () => {
+    if (!uploadedFile || failedPages.length === 0) return;
+    setIsConverting(true);
+    try {
+      const spec = failedPages.map(f => f.page).join(',');
+      const { pages, failed, streamError } = await streamFileConversion(uploadedFile, spec, '', pageResults);
+      const remaining = streamError ? failedPages.filter(f => !pages.some(p => p.page === f.page)) : failed;
+      setPageResults(pages);
+      setFailedPages(remaining);
+      setMarkdown(assemblePageMarkdown(pages, { stitch: stitchTables }));
+      addToast({
+        title: remaining.length > 0 ? '재시도 후에도 실패한 페이지가 있습니다' : '재시도 완료',
+        description: remaining.length > 0
+          ? `실패한 페이지: ${remaining.map(f => f.page).join(', ')}`
+          : `${failedPages.length}개 페이지를 다시 변환했습니다.`,
+        type: remaining.length > 0 ? 'error' : 'success',
+        duration: 8000
+      });
+    } catch (err: any) {
+      console.error('Retry failed:', err);
+      addToast({
+        title: '재시도 실패',
+        description: err.message,
+        type: 'error'
+      });
+    } finally {
+      setIsConverting(false);
+      setConvertProgress(null);
     }
   };
 
@@ -399,110 +926,194 @@ export default function Home() {
     }
   };
 
-  const handleExtract = async () => {
-    if (!markdown.trim()) return;
-    setIsExtracting(true);
-    try {
-      const response = await fetch('/api/extract', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ markdown, fields, aliases: fieldAliases })
-      });
-      const json = await response.json();
-      if (!response.ok) {
-        throw new Error(json.error || 'Extraction failed');
+  const specOf = (field: string): FieldSpec => fieldSpecs[field] ?? { name: field, type: 'text' };
+  const currentSchema = (): FieldSchema => ({ version: 1, fields: fields.map(specOf) });
+
+  const handleExportSchema = () => {
+    const blob = new Blob([JSON.stringify(currentSchema(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'field_schema.json';
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  // Replace the field list with an imported schema; values of fields that stay are kept
+  const handleImportSchema = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseFieldSchema(await file.text());
+    if ('error' in parsed) {
+      addToast({ title: '스키마 가져오기 실패', description: parsed.error, type: 'error' });
+      return;
+    }
+    const names = parsed.schema.fields.map(f => f.name);
+    setFields(names);
+    setFieldSpecs(Object.fromEntries(parsed.schema.fields.map(f => [f.name, f])));
+    setDeletedFields(prev => prev.filter(f => !names.includes(f)));
+    addToast({ title: '스키마 가져오기 완료', description: `${names.length}개 항목`, type: 'success' });
+  };
+
+  // Send markdown to /api/extract; mode 'items' returns one field map per equipment item
+  const requestExtraction = async (source: string, tables?: StructuredTable[], mode?: 'items') => {
+    const response = await fetch('/api/extract', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        markdown: source,
+        fields,
+        aliases: fieldAliases,
+        template: promptTemplate,
+        schema: currentSchema(),
+        ...(mode ? { mode } : {}),
+        ...(tables ? { tables } : {}),
+      })
+    });
+    const json = await response.json();
+    if (!response.ok) {
+      const err: any = new Error(json.error || 'Extraction failed');
+      err.code = json.code;
+      throw err;
+    }
+    return json;
+  };
+
+  // Merge one extracted field map (and its sources) into a case.
+  // `pages` are the batch document's pages, used to attach page images to the field sources.
+  const applyExtraction = (
+    caseName: string,
+    json: { fields?: Record<string, string>; provenance?: Record<string, FieldProvenance> },
+    pages?: PageEntry[],
+  ) => {
+    // Normalize extracted field keys: apply rename aliases and skip deleted
+    const deletedSet = new Set(deletedFields);
+    const rawFields: Record<string, string> = json.fields || {};
+    const mappedFields: Record<string, string> = {};
+    const rawSources: Record<string, FieldProvenance> = json.provenance || {};
+    const mappedSources: Record<string, ProvenanceEntry> = {};
+    Object.keys(rawFields).forEach((key) => {
+      const mappedKey = fieldAliases[key] || key;
+      if (!deletedSet.has(mappedKey)) {
+        mappedFields[mappedKey] = rawFields[key];
+        const src = rawSources[key];
+        if (src) {
+          const image = pages?.find(p => p.page === src.page)?.image;
+          mappedSources[mappedKey] = image ? { ...src, image } : src;
+        }
       }
-      // Normalize extracted field keys: apply rename aliases and skip deleted
-      const deletedSet = new Set(deletedFields);
-      const rawFields: Record<string, string> = json.fields || {};
-      const mappedFields: Record<string, string> = {};
-      Object.keys(rawFields).forEach((key) => {
-        const mappedKey = fieldAliases[key] || key;
-        if (!deletedSet.has(mappedKey)) {
-          mappedFields[mappedKey] = rawFields[key];
+    });
+    setProvenance(prev => ({ ...prev, [caseName]: { ...prev[caseName], ...mappedSources } }));
+    setCases(prev => {
+      const prevCase = prev[caseName] || {};
+      const newFields = json.fields || {};
+      const merged: ExtractedFields = { ...prevCase };
+      const changed = new Set<string>();
+      Object.keys(newFields).forEach(key => {
+        if (newFields[key] && newFields[key] !== prevCase[key]) {
+          merged[key] = newFields[key];
+          changed.add(key);
         }
       });
-      setCases(prev => {
-        const prevCase = prev[selectedCase] || {};
-        const newFields = json.fields || {};
-        const merged: ExtractedFields = { ...prevCase };
-        const changed = new Set<string>();
-        Object.keys(newFields).forEach(key => {
-          if (newFields[key] && newFields[key] !== prevCase[key]) {
-            merged[key] = newFields[key];
-            changed.add(key);
-          }
-        });
-        // 기존 값 유지 (새 데이터에 없는 값은 그대로)
-        return { ...prev, [selectedCase]: merged };
-      });
-      // Ensure new extracted fields appear as rows
-      setFields(prev => {
-        const nf = Object.keys(json.fields || {});
-        const add = nf.filter(k => !prev.includes(k));
-        return add.length ? [...prev, ...add] : prev;
-      });
-      setChangedFields(prev => {
-        const changed = new Set<string>();
-        const prevCase = cases[selectedCase] || {};
-        const newFields = json.fields || {};
-        Object.keys(newFields).forEach(key => {
-          if (newFields[key] && newFields[key] !== prevCase[key]) {
-            changed.add(key);
-          }
-        });
-        return { ...prev, [selectedCase]: changed };
+      // 기존 값 유지 (새 데이터에 없는 값은 그대로)
+      return { ...prev, [caseName]: merged };
+    });
+    // Ensure new extracted fields appear as rows
+    setFields(prev => {
+      const nf = Object.keys(json.fields || {});
+      const add = nf.filter(k => !prev.includes(k));
+      return add.length ? [...prev, ...add] : prev;
+    });
+    setChangedFields(prev => {
+      const changed = new Set<string>();
+      const prevCase = cases[caseName] || {};
+      const newFields = json.fields || {};
+      Object.keys(newFields).forEach(key => {
+        if (newFields[key] && newFields[key] !== prevCase[key]) {
+          changed.add(key);
+        }
       });
+      return { ...prev, [caseName]: changed };
+    });
 
-      // Reconcile with user intent: remove deleted fields and map aliases
-      const aliasKeys = Object.keys(fieldAliases);
-      // 1) Update cases: move aliased keys -> target names, drop deleted
-      setCases(prev => {
-        const updated = { ...prev } as { [caseName: string]: ExtractedFields | null };
-        const caseData = { ...(updated[selectedCase] || {}) } as ExtractedFields;
-        // Move alias keys
-        aliasKeys.forEach(oldKey => {
-          const newKey = fieldAliases[oldKey];
-          if (oldKey in caseData) {
-            // If newKey already exists, prefer existing value unless oldKey has a non-empty value
-            const oldVal = caseData[oldKey];
-            if (!caseData[newKey] && oldVal) {
-              caseData[newKey] = oldVal;
-            }
-            delete caseData[oldKey];
+    // Reconcile with user intent: remove deleted fields and map aliases
+    const aliasKeys = Object.keys(fieldAliases);
+    // 1) Update cases: move aliased keys -> target names, drop deleted
+    setCases(prev => {
+      const updated = { ...prev } as { [caseName: string]: ExtractedFields | null };
+      const caseData = { ...(updated[caseName] || {}) } as ExtractedFields;
+      // Move alias keys
+      aliasKeys.forEach(oldKey => {
+        const newKey = fieldAliases[oldKey];
+        if (oldKey in caseData) {
+          // If newKey already exists, prefer existing value unless oldKey has a non-empty value
+          const oldVal = caseData[oldKey];
+          if (!caseData[newKey] && oldVal) {
+            caseData[newKey] = oldVal;
           }
-        });
-        // Drop deleted
-        deletedFields.forEach(df => {
-          if (df in caseData) delete caseData[df];
-        });
-        updated[selectedCase] = caseData;
-        return updated;
+          delete caseData[oldKey];
+        }
+      });
+      // Drop deleted
+      deletedFields.forEach(df => {
+        if (df in caseData) delete caseData[df];
       });
+      updated[caseName] = caseData;
+      return updated;
+    });
 
-      // 2) Update fields list: drop deleted and remove old alias keys if target exists
-      setFields(prev => {
-        const targetSet = new Set(Object.values(fieldAliases));
-        const oldAliasSet = new Set(Object.keys(fieldAliases));
-        const deletedSet2 = new Set(deletedFields);
-        const filtered = prev.filter(f => !deletedSet2.has(f));
-        // Remove old alias key if target also present
-        const finalList = filtered.filter(f => !(oldAliasSet.has(f) && targetSet.has(fieldAliases[f] || '')));
-        return finalList;
+    // 2) Update fields list: drop deleted and remove old alias keys if target exists
+    setFields(prev => {
+      const targetSet = new Set(Object.values(fieldAliases));
+      const oldAliasSet = new Set(Object.keys(fieldAliases));
+      const deletedSet2 = new Set(deletedFields);
+      const filtered = prev.filter(f => !deletedSet2.has(f));
+      // Remove old alias key if target also present
+      const finalList = filtered.filter(f => !(oldAliasSet.has(f) && targetSet.has(fieldAliases[f] || '')));
+      return finalList;
+    });
+  };
+
+  // Long markdown is extracted in chunks; tell when chunks were dropped or disagreed
+  const reportChunks = (target: string, json: any) => {
+    const chunkCount = Array.isArray(json.chunks) ? json.chunks.length : 0;
+    if (json.dropped?.chunks > 0 || json.dropped?.characters > 0) {
+      addToast({
+        title: `${target}: 일부 내용이 추출에서 제외됨`,
+        description: `${chunkCount}개 청크 중 ${json.dropped.chunks}개 제외 (약 ${json.dropped.characters.toLocaleString()}자). 마크다운을 나눠서 추출하세요.`,
+        type: 'error',
+        duration: 10000
       });
-      
-      // Show token usage information
-      if (json.usage) {
-        const { prompt_tokens, completion_tokens, total_tokens } = json.usage;
-        const estimatedCost = (total_tokens / 1000) * 0.00015; // GPT-4o-mini pricing approximately
-        const costKRW = Math.round(estimatedCost * 1400 * 1000) / 1000;
+    }
+    if (Array.isArray(json.conflicts) && json.conflicts.length > 0) {
+      addToast({
+        title: `${target}: 청크 간 값 충돌 ${json.conflicts.length}건`,
+        description: json.conflicts
+          .map((c: any) => `${c.item ? `[${c.item}] ` : ''}${c.field}: ${c.chosen} (후보 ${c.candidates.map((x: any) => x.value).join(' / ')})`)
+          .join('\n'),
+        type: 'info',
+        duration: 10000
+      });
+    }
+  };
+
+  // Extract fields from `source` markdown (plus its structured tables, when known) into a case
+  const extractToCase = async (caseName: string, source: string, tables?: StructuredTable[], notify = true, pages?: PageEntry[]): Promise<boolean> => {
+    try {
+      const json = await requestExtraction(source, tables);
+      applyExtraction(caseName, json, pages);
+      reportChunks(caseName, json);
+
+      // Show token usage information (batch extraction reports once at the end)
+      if (notify && json.usage) {
         addToast({
           title: '마크다운 → 케이스 추출 완료',
-          description: `토큰 사용량: 총 ${total_tokens}개 (프롬프트 ${prompt_tokens}개 + 응답 ${completion_tokens}개)\n예상 비용: ${costKRW}원`,
+          description: usageSummary(json.usage),
           type: 'success',
           duration: 10000
         });
-      } else {
+      } else if (notify) {
         addToast({
           title: '마크다운 → 케이스 추출 완료',
           description: '추출이 완료되었습니다. (토큰 사용량 정보 없음)',
@@ -513,10 +1124,155 @@ export default function Home() {
     } catch (err: any) {
       console.error('Extraction failed:', err);
       addToast({
-        title: '추출 실패',
+        title: LIMIT_TITLES[err.code] || '추출 실패',
         description: err.message,
         type: 'error'
       });
+      return false;
+    }
+    return true;
+  };
+
+  // Numbers the server could not find in the PDF text layer; matching grid cells are highlighted
+  const numericWarnings = pageResults.flatMap(p => p.warnings || []);
+  const flaggedNumbers = new Set(numericWarnings.map(w => normalizeNumber(w.value)));
+  const isFlaggedValue = (value: string) =>
+    flaggedNumbers.size > 0 && extractNumbers(value).some(n => flaggedNumbers.has(normalizeNumber(n)));
+
+  // Select a range of the Markdown panel and scroll it into view
+  const selectInMarkdown = (start: number, length: number) => {
+    const ta = markdownRef.current;
+    if (!ta || start < 0) return;
+    ta.focus();
+    ta.setSelectionRange(start, start + length);
+    const line = markdown.slice(0, start).split('\n').length - 1;
+    const lineHeight = parseFloat(getComputedStyle(ta).lineHeight) || 20;
+    ta.scrollTop = Math.max(0, line * lineHeight - ta.clientHeight / 2);
+  };
+
+  // Select the flagged cell text in the Markdown panel
+  const showWarningInMarkdown = (w: NumericWarning) => {
+    const start = markdown.indexOf(w.cell);
+    if (start >= 0) selectInMarkdown(start, w.cell.length);
+    else selectInMarkdown(markdown.indexOf(w.value), w.value.length);
+  };
+
+  // Page image behind a source: corrected/rendered page, PDF preview or pasted image (### Image N)
+  const sourceImage = (src: ProvenanceEntry) => {
+    if (src.image) return src.image;
+    if (src.page === undefined) return undefined;
+    const pasted = imageDataUrls[src.page - 1];
+    return pageResults.find(p => p.page === src.page)?.image
+      || pdfPageImages.find(p => p.page === src.page)?.url
+      || (pasted ? imageCorrections[pasted]?.image || pasted : undefined);
+  };
+
+  // Show where a grid value came from; the offset is used while the markdown is unchanged,
+  // otherwise the source text is searched (batch documents are not in the panel)
+  const showSource = (caseName: string, field: string) => {
+    const src = provenance[caseName]?.[field];
+    if (!src) return false;
+    setSourceView({ caseName, field, source: src });
+    const raw = markdown.slice(src.offset, src.offset + src.length);
+    if (raw.replace(/\\\|/g, '|') === src.text) selectInMarkdown(src.offset, src.length);
+    else selectInMarkdown(markdown.indexOf(src.text), src.text.length);
+    return true;
+  };
+
+  // Structured tables behind converted pages, merged across pages like the markdown
+  const pageTables = (pages: PageEntry[]) => (stitchTables
+    ? stitchPages(pages).flatMap(s => s.tables)
+    : pages.flatMap(p => p.tables || []));
+
+  // Send the structured tables only while the markdown is unedited
+  const editorTables = () => (pageResults.length > 0 && markdown === assemblePageMarkdown(pageResults, { stitch: stitchTables })
+    ? pageTables(pageResults)
+    : undefined);
+
+  const handleExtract = async () => {
+    if (!markdown.trim()) return;
+    setIsExtracting(true);
+    try {
+      await extractToCase(selectedCase, markdown, editorTables());
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  // Extract every equipment item (duty/standby/alternative ...) and let the user map them to cases
+  const handleExtractItems = async () => {
+    if (!markdown.trim()) return;
+    setIsExtracting(true);
+    try {
+      const json = await requestExtraction(markdown, editorTables(), 'items');
+      reportChunks('항목 추출', json);
+      const items: any[] = Array.isArray(json.items) ? json.items : [];
+      if (items.length === 0) {
+        addToast({ title: '항목 추출', description: '문서에서 장비 항목을 찾지 못했습니다.', type: 'error' });
+        return;
+      }
+      // Empty cases are offered first, the rest go to new cases
+      const free = caseOptions.filter(c => !Object.values(cases[c] || {}).some(Boolean));
+      setPendingItems(items.map((item, i) => ({
+        label: item.label || `item ${i + 1}`,
+        fields: item.fields || {},
+        provenance: item.provenance,
+        target: free[i] ?? NEW_CASE,
+      })));
+      if (json.usage) {
+        addToast({ title: `항목 ${items.length}개 추출 완료`, description: usageSummary(json.usage), type: 'success', duration: 10000 });
+      }
+    } catch (err: any) {
+      console.error('Item extraction failed:', err);
+      addToast({ title: LIMIT_TITLES[err.code] || '추출 실패', description: err.message, type: 'error' });
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  // Write the pending items into their cases, creating new cases as needed
+  const handleApplyItems = () => {
+    if (!pendingItems) return;
+    const options = [...caseOptions];
+    let applied = 0;
+    for (const item of pendingItems) {
+      if (!item.target) continue;
+      let target = item.target;
+      if (target === NEW_CASE) {
+        let nextNum = 1;
+        while (options.includes(`case${nextNum}`)) nextNum++;
+        target = `case${nextNum}`;
+        options.push(target);
+      }
+      applyExtraction(target, item);
+      applied++;
+    }
+    setCaseOptions(options);
+    setPendingItems(null);
+    addToast({
+      title: '항목 → 케이스 반영 완료',
+      description: `${applied}/${pendingItems.length}개 항목을 케이스에 반영했습니다.`,
+      type: 'success',
+      duration: 5000
+    });
+  };
+
+  // Extract every converted batch document into the case assigned to it
+  const handleExtractBatch = async () => {
+    const targets = batchDocs.filter(d => d.caseName && d.pages.length > 0);
+    if (targets.length === 0) return;
+    setIsExtracting(true);
+    try {
+      let ok = 0;
+      for (const doc of targets) {
+        if (await extractToCase(doc.caseName, assemblePageMarkdown(doc.pages, { stitch: stitchTables }), pageTables(doc.pages), false, doc.pages)) ok++;
+      }
+      addToast({
+        title: '문서별 케이스 추출 완료',
+        description: `${ok}/${targets.length}개 문서를 지정된 케이스로 추출했습니다.`,
+        type: ok === targets.length ? 'success' : 'error',
+        duration: 8000
+      });
     } finally {
       setIsExtracting(false);
     }
@@ -791,6 +1547,13 @@ export default function Home() {
   }, [handleImageBlob, pasteRangeToGrid]);
 
   // Add paste event listener
+  useEffect(() => {
+    fetch('/api/templates')
+      .then(r => (r.ok ? r.json() : null))
+      .then(json => { if (json?.templates) setTemplates(json.templates); })
+      .catch(err => console.warn('Loading prompt templates failed:', err));
+  }, []);
+
   useEffect(() => {
     const handlePasteEvent = (e: ClipboardEvent) => handlePaste(e);
     document.addEventListener('paste', handlePasteEvent);
@@ -824,6 +1587,15 @@ export default function Home() {
         updated[editingCell.caseName] = caseData;
         return updated;
       });
+      // A hand-edited value no longer comes from the document
+      if (editingValue !== (cases[editingCell.caseName]?.[editingCell.field] || '')) {
+        const { caseName, field } = editingCell;
+        setProvenance(prev => {
+          if (!prev[caseName]?.[field]) return prev;
+          const { [field]: _dropped, ...rest } = prev[caseName];
+          return { ...prev, [caseName]: rest };
+        });
+      }
     }
     setEditingCell(null);
   };
@@ -942,6 +1714,10 @@ export default function Home() {
     if (nextName !== prevName) {
       setFieldAliases(prev => ({ ...prev, [prevName]: nextName }));
       setDeletedFields(prev => prev.filter(f => f !== nextName));
+      setFieldSpecs(prev => {
+        const { [prevName]: spec, ...rest } = prev;
+        return spec ? { ...rest, [nextName]: { ...spec, name: nextName } } : prev;
+      });
     }
     if (nextName !== prevName) {
       setCases(prev => {
@@ -1030,6 +1806,62 @@ export default function Home() {
     });
   };
 
+  // PDF conversion mode, cache and stitching toggles, shared by the single-PDF and batch panels
+  const convertSettings = (
+    <>
+      <select
+        value={convertMode}
+        onChange={e => setConvertMode(e.target.value as 'vision' | 'text' | 'auto')}
+        className="border rounded px-2 py-1 text-sm"
+        title="변환 방식"
+        aria-label="변환 방식"
+      >
+        <option value="vision">이미지 인식 (Vision)</option>
+        <option value="auto">자동 (텍스트 우선)</option>
+        <option value="text">텍스트 레이어만 (오프라인)</option>
+      </select>
+      <select
+        value={promptTemplate}
+        onChange={e => setPromptTemplate(e.target.value)}
+        className="border rounded px-2 py-1 text-sm"
+        title="문서 종류별 프롬프트 템플릿 (변환과 필드 추출에 함께 사용)"
+        aria-label="프롬프트 템플릿"
+      >
+        {(templates.length > 0 ? templates : [{ name: 'generic', version: '', title: 'Default' }]).map(t => (
+          <option key={t.name} value={t.name}>{t.title}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 text-xs">
+        <input
+          type="checkbox"
+          checked={useConvertCache}
+          onChange={e => setUseConvertCache(e.target.checked)}
+        />
+        캐시 사용
+      </label>
+      <label className="flex items-center gap-1 text-xs" title="여러 페이지에 걸친 표를 하나로 합칩니다">
+        <input
+          type="checkbox"
+          checked={stitchTables}
+          onChange={e => setStitchTables(e.target.checked)}
+        />
+        페이지 간 표 병합
+      </label>
+      <label className="flex items-center gap-1 text-xs" title="이 금액(USD)을 넘기 전에 변환을 멈추고 변환된 페이지까지만 반환합니다">
+        최대 비용 $
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={maxCost}
+          onChange={e => setMaxCost(e.target.value)}
+          placeholder="제한 없음"
+          className="border rounded px-1 py-0.5 w-20"
+        />
+      </label>
+    </>
+  );
+
   return (
     <div className="min-h-screen bg-background p-2">
       <div className="max-w-7xl mx-auto space-y-2">
@@ -1051,20 +1883,18 @@ export default function Home() {
             >
               <Upload className="mx-auto h-8 w-12 mb-2" />
               <p className="font-semibold mb-2">
-                <strong>Paste</strong> an image here or <strong>drag & drop</strong> an image/PDF.
+                <strong>Paste</strong> an image here or <strong>drag & drop</strong> image/PDF/Excel/Word/HTML/CSV files or a ZIP.
               </p>
               <p className="text-sm text-muted-foreground mb-4">
-                Upload image or PDF file
+                Upload image, PDF, XLSX/XLS, DOCX, HTML or CSV files (several at once or as a ZIP)
               </p>
               <Input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*,application/pdf"
+                accept={`image/*,.heic,.heif,.tif,.tiff,application/pdf,${DOCUMENT_ACCEPT},.zip,application/zip`}
+                multiple
                 className="hidden"
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file) handleFileChange(file);
-                }}
+                onChange={(e) => handleFilesSelected(Array.from(e.target.files || []))}
               />
             </div>
           </CardContent>
@@ -1079,13 +1909,66 @@ export default function Home() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {imageDataUrls.length > 0 ? (
+              {batchFiles.length > 0 ? (
+                <div className="text-sm border rounded p-2 space-y-2">
+                  <div className="text-muted-foreground">
+                    일괄 변환: {batchFiles.map(f => f.name).join(', ')}
+                  </div>
+                  <div className="flex gap-2 items-center">{convertSettings}</div>
+                  {batchDocs.length > 0 ? (
+                    <ul className="space-y-1 max-h-[480px] overflow-auto">
+                      {batchDocs.map(doc => (
+                        <li
+                          key={doc.index}
+                          className={`flex items-center gap-2 rounded border p-1 ${activeBatchDoc === doc.index ? 'border-primary bg-primary/5' : ''}`}
+                        >
+                          <span className="flex-1 truncate" title={doc.error || doc.fileName}>{doc.fileName}</span>
+                          <span className={`text-xs ${doc.status === 'failed' ? 'text-red-600' : 'text-muted-foreground'}`}>
+                            {doc.status === 'converting'
+                              ? `변환 중 (${doc.pages.length}p)`
+                              : doc.status === 'failed'
+                                ? '실패'
+                                : `${doc.pages.length}p · ${doc.totalTokens} tokens${doc.failedPages.length > 0 ? ` · 실패 ${doc.failedPages.length}p` : ''}`}
+                          </span>
+                          <select
+                            value={doc.caseName}
+                            onChange={e => {
+                              const caseName = e.target.value;
+                              setBatchDocs(prev => prev.map(d => (d.index === doc.index ? { ...d, caseName } : d)));
+                            }}
+                            className="border rounded px-1 py-0.5 text-xs"
+                            title="케이스 지정"
+                            aria-label={`${doc.fileName} 케이스 지정`}
+                          >
+                            <option value="">케이스 미지정</option>
+                            {caseOptions.map(c => (
+                              <option key={c} value={c}>{c}</option>
+                            ))}
+                          </select>
+                          <Button size="sm" variant="outline" onClick={() => showBatchDoc(doc)} disabled={doc.pages.length === 0}>
+                            보기
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                  <Button
+                    size="sm"
+                    onClick={handleExtractBatch}
+                    disabled={isExtracting || isConverting || !batchDocs.some(d => d.caseName && d.pages.length > 0)}
+                  >
+                    지정된 케이스로 추출
+                  </Button>
+                </div>
+              ) : imageDataUrls.length > 0 ? (
                 <div className="grid grid-cols-1 gap-3 max-h-[480px] overflow-auto">
                   {imageDataUrls.map((u, idx) => (
                     <div key={idx} className="space-y-1">
                       <div className="text-xs text-muted-foreground">Image {idx + 1}</div>
                       <div className="relative">
-                        <img src={u} alt={`pasted-${idx+1}`} className="w-full h-auto rounded border" />
+                        <img src={imageCorrections[u]?.image || u} alt={`pasted-${idx+1}`} className="w-full h-auto rounded border" />
+                        <RegionOverlay regions={imageRegions[u]} />
+                        <CorrectionBadge correction={imageCorrections[u]?.correction} />
                         <button
                           type="button"
                           aria-label={`이미지 ${idx + 1} 삭제`}
@@ -1105,9 +1988,31 @@ export default function Home() {
                   alt="preview"
                   className="w-full h-auto rounded-lg border"
                 />
+              ) : uploadedFile && detectDocumentFormat(uploadedFile.name, uploadedFile.type) ? (
+                <div className="text-sm text-muted-foreground border rounded p-2 space-y-1">
+                  <div>Document selected: {uploadedFile.name}</div>
+                  <p className="text-xs">시트/섹션별 표를 직접 읽어 변환합니다 (LLM 호출 없음).</p>
+                </div>
               ) : uploadedFile ? (
                 <div className="text-sm text-muted-foreground border rounded p-2 space-y-2">
                   <div>PDF selected: {uploadedFile.name}{pdfTotalPages ? ` · 총 페이지: ${pdfTotalPages}` : ''}</div>
+                  {pdfPasswordPrompt ? (
+                    <form
+                      className="flex gap-2 items-center"
+                      onSubmit={(e) => { e.preventDefault(); handleUnlockPdf(); }}
+                    >
+                      <Input
+                        type="password"
+                        autoComplete="off"
+                        placeholder={pdfPasswordPrompt === 'incorrect' ? '비밀번호가 틀렸습니다. 다시 입력하세요' : '암호로 보호된 PDF입니다. 비밀번호 입력'}
+                        value={pdfPasswordInput}
+                        onChange={(e) => setPdfPasswordInput(e.target.value)}
+                      />
+                      <Button size="sm" type="submit" disabled={!pdfPasswordInput || isRenderingPdf}>
+                        열기
+                      </Button>
+                    </form>
+                  ) : null}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                     <Input
                       placeholder="포함할 페이지 (예: 1-5,7,9)"
@@ -1121,6 +2026,7 @@ export default function Home() {
                     />
                   </div>
                   <div className="flex gap-2 items-center">
+                    {convertSettings}
                     <Button size="sm" onClick={handleRenderPdfPreview} disabled={isRenderingPdf}>
                       {isRenderingPdf ? (
                         <><Loader2 className="h-4 w-4 animate-spin" /> 렌더링...</>
@@ -1140,7 +2046,23 @@ export default function Home() {
                       {pdfPageImages.map(img => (
                         <div key={img.page} className="space-y-1">
                           <div className="text-xs text-muted-foreground">Page {img.page}</div>
-                          <img src={img.url} alt={`Page ${img.page}`} className="w-full h-auto rounded border" />
+                          <div className="relative">
+                            <img
+                              src={pageResults.find(p => p.page === img.page)?.image || img.url}
+                              alt={`Page ${img.page}`}
+                              className="w-full h-auto rounded border"
+                            />
+                            <RegionOverlay regions={pageResults.find(p => p.page === img.page)?.regions} />
+                            <CorrectionBadge correction={pageResults.find(p => p.page === img.page)?.correction} />
+                            {skippedPages.some(s => s.page === img.page) ? (
+                              <div
+                                className="absolute inset-0 flex items-start justify-end rounded bg-gray-500/30 p-1"
+                                title={skippedPages.find(s => s.page === img.page)?.reason}
+                              >
+                                <span className="rounded bg-amber-500 px-1.5 py-0.5 text-[10px] text-white">표 없음 · 건너뜀</span>
+                              </div>
+                            ) : null}
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -1152,11 +2074,18 @@ export default function Home() {
 
           <Card>
             <CardHeader>
-              <CardTitle>Markdown</CardTitle>
+              <CardTitle className="flex items-baseline gap-2">
+                Markdown
+                {usedTemplate ? (
+                  <span className="text-xs font-normal text-muted-foreground" title="이 결과를 만든 프롬프트 템플릿과 버전">
+                    {usedTemplate.name}@{usedTemplate.version}
+                  </span>
+                ) : null}
+              </CardTitle>
               <div className="flex gap-2 flex-wrap">
                 <Button
                   onClick={handleConvert}
-                  disabled={(imageDataUrls.length === 0 && !dataUrl && !uploadedFile) || isConverting}
+                  disabled={(imageDataUrls.length === 0 && !dataUrl && !uploadedFile && batchFiles.length === 0) || isConverting}
                   className="flex items-center gap-2"
                 >
                   {isConverting ? (
@@ -1187,11 +2116,104 @@ export default function Home() {
             </CardHeader>
             <CardContent>
               <Textarea
+                ref={markdownRef}
                 value={markdown}
                 onChange={(e) => setMarkdown(e.target.value)}
                 placeholder="Markdown will appear here..."
                 className="min-h-[320px] font-mono"
               />
+              {numericWarnings.length > 0 ? (
+                <div className="mt-2 rounded border border-amber-300 bg-amber-50 p-2 text-xs text-amber-900 space-y-1">
+                  <div className="font-semibold">
+                    숫자 검증 경고 {numericWarnings.length}건 — PDF 텍스트에서 찾지 못한 숫자입니다. 원본과 대조해 주세요.
+                  </div>
+                  <ul className="max-h-32 overflow-auto space-y-0.5">
+                    {numericWarnings.map((w, i) => (
+                      <li key={i}>
+                        <button
+                          type="button"
+                          className="text-left hover:underline"
+                          title={w.cell}
+                          onClick={() => showWarningInMarkdown(w)}
+                        >
+                          Page {w.page} · 표 {w.table} · r{w.row}c{w.col}: <span className="font-mono font-semibold">{w.value}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+              {sourceView ? (
+                <div className="mt-2 rounded border border-sky-300 bg-sky-50 p-2 text-xs text-sky-900 space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <span className="font-semibold">{sourceView.caseName} · {sourceView.field}</span>
+                      {' — '}
+                      {[
+                        sourceView.source.section ?? (sourceView.source.page !== undefined ? `Page ${sourceView.source.page}` : ''),
+                        sourceView.source.table ? `표 ${sourceView.source.table}` : '',
+                        sourceView.source.row ? `행 "${sourceView.source.row}"` : '',
+                        sourceView.source.column ? `열 "${sourceView.source.column}"` : '',
+                      ].filter(Boolean).join(' · ') || '본문'}
+                    </div>
+                    <button type="button" className="text-sky-700 hover:underline" onClick={() => setSourceView(null)}>닫기</button>
+                  </div>
+                  <div>
+                    원문: <button
+                      type="button"
+                      className="font-mono font-semibold hover:underline"
+                      onClick={() => showSource(sourceView.caseName, sourceView.field)}
+                    >{sourceView.source.text}</button>
+                  </div>
+                  {sourceImage(sourceView.source) ? (
+                    <img
+                      src={sourceImage(sourceView.source)}
+                      alt={`Page ${sourceView.source.page}`}
+                      className="max-h-96 w-auto rounded border bg-white"
+                    />
+                  ) : null}
+                </div>
+              ) : null}
+              {convertProgress && convertProgress.total > 0 ? (
+                <div className="mt-2 space-y-1">
+                  <div className="h-2 w-full rounded bg-gray-200 overflow-hidden">
+                    <div
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${Math.round((convertProgress.done / convertProgress.total) * 100)}%` }}
+                    />
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {convertProgress.done}/{convertProgress.total} 페이지 완료 · 렌더링 {convertProgress.rendered}
+                    {convertProgress.cached > 0 ? ` · 캐시 ${convertProgress.cached}` : ''}
+                  </div>
+                </div>
+              ) : null}
+              {failedPages.length > 0 && !isConverting ? (
+                <div className="mt-2 rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 space-y-1">
+                  <div className="font-semibold">실패한 페이지: {failedPages.map(f => f.page).join(', ')}</div>
+                  <ul className="space-y-0.5">
+                    {failedPages.map(f => (
+                      <li key={f.page} className="truncate" title={f.error}>Page {f.page}: {f.error}</li>
+                    ))}
+                  </ul>
+                  <Button size="sm" variant="outline" onClick={handleRetryFailedPages}>
+                    실패 페이지 재시도
+                  </Button>
+                </div>
+              ) : null}
+              {skippedPages.length > 0 && !isConverting ? (
+                <div className="mt-2 rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800 space-y-1">
+                  <div className="font-semibold">표가 없어 건너뛴 페이지: {skippedPages.map(s => s.page).join(', ')}</div>
+                  <ul className="space-y-0.5">
+                    {skippedPages.map(s => (
+                      <li key={s.page} className="truncate" title={s.reason}>Page {s.page}: {s.reason}</li>
+                    ))}
+                  </ul>
+                  <Button size="sm" variant="outline" onClick={handleConvertSkippedPages}>
+                    건너뛴 페이지도 변환
+                  </Button>
+                </div>
+              ) : null}
             </CardContent>
           </Card>
         </div>
@@ -1218,6 +2240,19 @@ export default function Home() {
                 <Button variant="outline" onClick={handleAddCase}>Add Case</Button>
                 <Button variant="outline" onClick={handleRemoveCase} disabled={caseOptions.length <= 1}>Remove Case</Button>
                 <Button variant="outline" onClick={handleAddField}>Add Field</Button>
+                <Button variant="outline" onClick={() => schemaInputRef.current?.click()} title="필드 스키마(JSON) 가져오기">
+                  Import Schema
+                </Button>
+                <Button variant="outline" onClick={handleExportSchema} title="필드 스키마(JSON) 내보내기">
+                  Export Schema
+                </Button>
+                <input
+                  ref={schemaInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => { handleImportSchema(e.target.files?.[0]); e.target.value = ''; }}
+                />
               </div>
               <Button
                 onClick={handleExtract}
@@ -1229,6 +2264,21 @@ export default function Home() {
                 ) : null}
                 Convert (MD to Case) 
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleExtractItems}
+                disabled={!markdown.trim() || isExtracting}
+                title="문서에 있는 여러 장비(듀티/스탠바이/대안 모델 등)를 항목별로 추출해 케이스에 나눠 넣습니다"
+              >
+                Convert (MD to Cases)
+              </Button>
+              <Button
+                variant={showNormalized ? 'default' : 'outline'}
+                onClick={() => setShowNormalized(v => !v)}
+                title="원본 값과 단위 환산 값(m³/h, m, kW 등) 사이를 전환합니다"
+              >
+                {showNormalized ? '표시: 단위 환산' : '표시: 원본'}
+              </Button>
               <Button variant="outline" onClick={handleCopyExcelTable}>
                 <Copy className="h-4 w-4" />
                 {tableCopySuccess ? 'Copied!' : 'Copy Table for Excel'}
@@ -1240,6 +2290,39 @@ export default function Home() {
             </div>
           </CardHeader>
           <CardContent>
+            {pendingItems ? (
+              <div className="mb-3 rounded border border-sky-300 bg-sky-50 p-2 text-sm space-y-2">
+                <div className="font-semibold">
+                  문서에서 찾은 항목 {pendingItems.length}개 — 각 항목을 넣을 케이스를 고르세요
+                </div>
+                <ul className="space-y-1">
+                  {pendingItems.map((item, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <span className="w-40 shrink-0 truncate font-medium" title={item.label}>{item.label}</span>
+                      <span className="flex-1 truncate text-xs text-muted-foreground">
+                        {fields.filter(f => item.fields[f]).slice(0, 3).map(f => `${f}: ${item.fields[f]}`).join(' · ')}
+                      </span>
+                      <select
+                        value={item.target}
+                        onChange={e => setPendingItems(prev => prev && prev.map((p, j) => (j === i ? { ...p, target: e.target.value } : p)))}
+                        className="border rounded px-2 py-1 text-sm"
+                        aria-label={`${item.label} 대상 케이스`}
+                      >
+                        {caseOptions.map(c => (
+                          <option key={c} value={c}>{c}{Object.values(cases[c] || {}).some(Boolean) ? ' (기존 값 있음)' : ''}</option>
+                        ))}
+                        <option value={NEW_CASE}>새 케이스</option>
+                        <option value="">건너뛰기</option>
+                      </select>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleApplyItems}>케이스에 반영</Button>
+                  <Button size="sm" variant="outline" onClick={() => setPendingItems(null)}>취소</Button>
+                </div>
+              </div>
+            ) : null}
             <div
               ref={gridContainerRef}
               tabIndex={0}
@@ -1304,7 +2387,15 @@ export default function Home() {
                                 aria-label={`Edit field name`}
                               />
                             ) : (
-                              <span className="cursor-pointer truncate" title={field} onClick={() => handleFieldNameClick(rowIdx)}>{field}</span>
+                              <span className="cursor-pointer truncate" title={field} onClick={() => handleFieldNameClick(rowIdx)}>
+                                {field}
+                                {specOf(field).required ? <span className="text-red-500"> *</span> : null}
+                                {specOf(field).type !== 'text' ? (
+                                  <span className="ml-1 text-[10px] font-normal text-muted-foreground">
+                                    {specOf(field).type}{specOf(field).unit ? ` · ${specOf(field).unit}` : ''}
+                                  </span>
+                                ) : null}
+                              </span>
                             )}
                             <Button
                               variant="ghost"
@@ -1323,8 +2414,15 @@ export default function Home() {
                           const isChanged = changedFields[c]?.has(field);
                           const isEditing = editingCell && editingCell.caseName === c && editingCell.field === field;
                           const isSelected = isCellSelected(rowIdx, idx + 1);
+                          const isFlagged = isFlaggedValue(value);
+                          const shown = showNormalized && value ? normalizeValue(field, value).text : value;
+                          // Only cases that hold data are validated, so empty columns are not all flagged as missing
+                          const fieldError = cases[c] ? validateValue(specOf(field), value) : null;
                           const cellStyle = {
                             ...(isChanged ? { backgroundColor: isSelected ? '#e8f2ff' : '#fff8c6' } : {}),
+                            ...(isFlagged ? { boxShadow: 'inset 0 0 0 2px #f59e0b' } : {}),
+                            ...(fieldError ? { boxShadow: 'inset 0 0 0 2px #ef4444' } : {}),
+                            ...(fieldError?.code === 'required' && !isSelected ? { backgroundColor: '#fef2f2' } : {}),
                             width: columnWidths[c],
                             minWidth: columnWidths[c]
                           };
@@ -1356,7 +2454,34 @@ export default function Home() {
                                   aria-label={`Edit ${field} for ${c}`}
                                 />
                               ) : (
-                                <span className="block truncate" title={value}>{value}</span>
+                                <>
+                                  <span
+                                    className={`block truncate${provenance[c]?.[field] ? ' pr-5' : ''}`}
+                                    title={[
+                                      shown !== value ? `${shown}\n(원문: ${value})` : value,
+                                      isFlagged ? '(PDF 텍스트에서 확인되지 않은 숫자 — 검토 필요)' : '',
+                                      fieldError ? `${FIELD_ERROR_LABELS[fieldError.code]}: ${fieldError.message}` : '',
+                                    ].filter(Boolean).join('\n')}
+                                  >
+                                    {shown}
+                                  </span>
+                                  {provenance[c]?.[field] && (
+                                    // Separate from the cell so a click still starts editing
+                                    <button
+                                      type="button"
+                                      className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 text-slate-400 hover:bg-slate-100 hover:text-sky-700"
+                                      title="출처 보기"
+                                      aria-label={`Show source of ${field} for ${c}`}
+                                      onMouseDown={(e) => e.stopPropagation()}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        showSource(c, field);
+                                      }}
+                                    >
+                                      <FileSearch className="h-3.5 w-3.5" />
+                                    </button>
+                                  )}
+                                </>
                               )}
                             </TableCell>
                           );
@@ -0,0 +1,86 @@
+import {
+  createCostBudget,
+  runConversion,
+  type ConvertEvent,
+  type ConvertOptions,
+  type FailedPage,
+  type PageResult,
+} from '@/lib/convert';
+import type { ConvertInput, SkippedFile } from '@/lib/convert-request';
+import { createLimiter } from '@/lib/concurrency';
+import { addUsage, emptyUsage, type LLMUsage } from '@/lib/llm';
+import { isPdfPasswordError, type PdfPasswordCode } from '@/lib/pdf';
+import { createPageQuota, isLimitError, type LimitCode } from '@/lib/limits';
+import type { SkippedPage } from '@/lib/page-classify';
+import type { NumericWarning } from '@/lib/verify-numbers';
+import type { TemplateRef } from '@/lib/prompt-templates';
+
+// Several documents (multi-file or ZIP upload) converted in one request.
+// All model calls share one concurrency budget (`options.concurrency`) and one
+// cost budget (`options.maxCost`); their pages count against MAX_REQUEST_PAGES together.
+
+export interface BatchDocument {
+  index: number;
+  fileName?: string;
+  kind: ConvertInput['kind'];
+}
+
+export interface BatchDocumentResult extends BatchDocument {
+  markdown: string;
+  usage: LLMUsage;
+  pages: PageResult[];
+  failedPages: FailedPage[];
+  skippedPages: SkippedPage[];
+  warnings: NumericWarning[];
+  overBudgetPages: number[];
+  // Set when the whole document failed (unreadable file, no pages selected, ...)
+  error?: string;
+  // Set when an encrypted PDF could not be opened with the request's password, or a limit was hit
+  code?: PdfPasswordCode | LimitCode;
+}
+
+export interface BatchResult {
+  documents: BatchDocumentResult[];
+  usage: LLMUsage;
+}
+
+export type BatchEvent =
+  // `skipped` lists upload entries that were not converted, `template` the prompt used (both filled in by the route)
+  | { type: 'batch-start'; documents: BatchDocument[]; skipped?: SkippedFile[]; template?: TemplateRef }
+  | ConvertEvent & { document: number }
+  | { type: 'document-error'; document: number; error: string; code?: PdfPasswordCode | LimitCode }
+  | { type: 'batch-done'; usage: LLMUsage };
+
+export async function runBatch(
+  inputs: ConvertInput[],
+  options: ConvertOptions,
+  onEvent: (event: BatchEvent) => void = () => {},
+): Promise<BatchResult> {
+  const documents: BatchDocument[] = inputs.map((input, index) => ({ index, fileName: input.fileName, kind: input.kind }));
+  onEvent({ type: 'batch-start', documents });
+
+  const limiter = createLimiter(options.concurrency);
+  const budget = createCostBudget(options.maxCost, options.llm?.settings.model);
+  const pageQuota = createPageQuota();
+  // Keeps only a few documents parsed in memory while the page budget stays saturated
+  const documentLimit = createLimiter(Math.max(2, options.concurrency));
+  const results = await Promise.all(inputs.map((input, index) => documentLimit(async (): Promise<BatchDocumentResult> => {
+    const doc = documents[index];
+    try {
+      const result = await runConversion(input, { ...options, limiter, budget, pageQuota }, (event) => onEvent({ ...event, document: index }));
+      return { ...doc, ...result };
+    } catch (err: any) {
+      if (err?.name === 'AbortError') throw err;
+      console.error(`Batch document ${index + 1} (${doc.fileName || doc.kind}) failed:`, err?.message || err);
+      const error = err?.message || String(err);
+      const code = isPdfPasswordError(err) || isLimitError(err) ? err.code : undefined;
+      onEvent({ type: 'document-error', document: index, error, ...(code ? { code } : {}) });
+      return { ...doc, markdown: '', usage: emptyUsage(), pages: [], failedPages: [], skippedPages: [], warnings: [], overBudgetPages: [], error, ...(code ? { code } : {}) };
+    }
+  })));
+
+  const usage = emptyUsage();
+  for (const r of results) addUsage(usage, r.usage);
+  onEvent({ type: 'batch-done', usage });
+  return { documents: results, usage };
+}
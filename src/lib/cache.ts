@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Content-addressed disk cache for page renders and model responses.
+// Entries live under CONVERT_CACHE_DIR (default .cache/convert) as
+// `<kind>/<sha256>`; once the total size exceeds CONVERT_CACHE_MAX_MB the least
+// recently used entries (by mtime, refreshed on every hit) are evicted.
+
+export type CacheKind = 'render' | 'markdown';
+
+const CACHE_DIR = process.env.CONVERT_CACHE_DIR || path.join(process.cwd(), '.cache', 'convert');
+const CACHE_MAX_BYTES = (Number(process.env.CONVERT_CACHE_MAX_MB) || 500) * 1024 * 1024;
+
+export function hashBytes(data: Uint8Array | string) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Key built from every input that can change the cached value
+export function cacheKey(parts: (string | number)[]) {
+  return hashBytes(parts.map(String).join('\u0000'));
+}
+
+function entryPath(kind: CacheKind, key: string) {
+  return path.join(CACHE_DIR, kind, key);
+}
+
+export async function cacheGet(kind: CacheKind, key: string): Promise<Buffer | null> {
+  const file = entryPath(kind, key);
+  try {
+    const data = await fs.readFile(file);
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => {});
+    return data;
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') console.warn('[cache] read failed:', e?.message || e);
+    return null;
+  }
+}
+
+export async function cachePut(kind: CacheKind, key: string, data: Buffer | string) {
+  const file = entryPath(kind, key);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so concurrent readers never see a partial entry
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+    scheduleEviction();
+  } catch (e: any) {
+    console.warn('[cache] write failed:', e?.message || e);
+  }
+}
+
+let evicting: Promise<void> | null = null;
+
+function scheduleEviction() {
+  if (!evicting) {
+    evicting = evict()
+      .catch((e) => console.warn('[cache] eviction failed:', e?.message || e))
+      .finally(() => { evicting = null; });
+  }
+}
+
+async function evict() {
+  const entries: { file: string; size: number; mtime: number }[] = [];
+  for (const kind of ['render', 'markdown'] as CacheKind[]) {
+    const dir = path.join(CACHE_DIR, kind);
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      if (name.endsWith('.tmp')) continue;
+      const file = path.join(dir, name);
+      const st = await fs.stat(file).catch(() => null);
+      if (st?.isFile()) entries.push({ file, size: st.size, mtime: st.mtimeMs });
+    }
+  }
+  let total = entries.reduce((s, e) => s + e.size, 0);
+  if (total <= CACHE_MAX_BYTES) return;
+  entries.sort((a, b) => a.mtime - b.mtime);
+  for (const e of entries) {
+    if (total <= CACHE_MAX_BYTES) break;
+    await fs.unlink(e.file).catch(() => {});
+    total -= e.size;
+  }
+}
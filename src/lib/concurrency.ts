@@ -0,0 +1,22 @@
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+// Runs at most `max` tasks at a time, in submission order
+export function createLimiter(max: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  // A finishing task hands its slot straight to the next waiter
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (active >= max) await new Promise<void>(resolve => waiting.push(resolve));
+    else active++;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+}
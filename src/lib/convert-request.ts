@@ -0,0 +1,331 @@
+import type { ConvertOptions, ExtractMode } from '@/lib/convert';
+import type { LLMProvider } from '@/lib/llm';
+import JSZip from 'jszip';
+import type { Readable } from 'stream';
+import { detectDocumentFormat, type DocumentFormat } from '@/lib/document-formats';
+import { detectImageFormat, type ImageFormat } from '@/lib/images';
+import { formatBytes, LIMITS, type LimitCode } from '@/lib/limits';
+
+// Request parsing shared by /api/convert and /api/jobs
+
+export type ConvertInput =
+  | { kind: 'image'; dataUrl: string; fileName?: string }
+  // `password` opens encrypted PDFs (form field "password"); never logged or persisted
+  | { kind: 'pdf'; data: Uint8Array; fileName?: string; password?: string }
+  | { kind: 'document'; format: DocumentFormat; data: Uint8Array; fileName?: string };
+
+export type ConvertParams = Omit<ConvertOptions, 'llm' | 'origin' | 'signal'>;
+
+export interface RequestFailure {
+  error: string;
+  status: number;
+  // Machine-readable reason for limit/validation failures
+  code?: LimitCode;
+}
+
+// JSON body of a failed request
+export const failureBody = ({ error, code }: RequestFailure) => (code ? { error, code } : { error });
+
+export function parseConvertParams(sp: URLSearchParams): { params: ConvertParams } | RequestFailure {
+  const envScale = Number(process.env.PDF_RENDER_SCALE) || 2;
+  const envConcurrency = Number(process.env.PDF_CONCURRENCY) || 2;
+  const envRetries = process.env.PDF_PAGE_RETRIES ? Number(process.env.PDF_PAGE_RETRIES) || 0 : 3;
+  const maxPagesParam = Number(sp.get('maxPages'));
+  const scaleParam = Number(sp.get('scale'));
+  const startParam = Number(sp.get('start'));
+  const endParam = Number(sp.get('end'));
+  const concurrencyParam = Number(sp.get('concurrency'));
+  const retriesParam = sp.get('retries');
+  // maxCost=0.05 stops sending pages once USD 0.05 would be exceeded (CONVERT_MAX_COST sets a default)
+  const maxCostParam = Number(sp.get('maxCost') ?? process.env.CONVERT_MAX_COST ?? 0);
+  // cache=0 bypasses the page render / model response cache
+  const cacheCfg = !['0', 'false', 'off'].includes((sp.get('cache') || '').toLowerCase());
+  // regions=0 sends whole page images instead of detected table regions/tiles
+  const regionsCfg = !['0', 'false', 'off'].includes((sp.get('regions') ?? process.env.TABLE_REGIONS ?? '').toLowerCase());
+  // classify=1 (or PAGE_CLASSIFIER=1) skips pages the pre-classifier finds without tables; off by default
+  // so unruled tables are never dropped unasked. force=3,5 overrides the pre-classifier for those pages
+  const classifyCfg = ['1', 'true', 'on'].includes((sp.get('classify') ?? process.env.PAGE_CLASSIFIER ?? '').toLowerCase());
+  const forceSpec = (sp.get('force') || '').trim();
+  // stitch=0 keeps one table per page instead of merging tables that continue on the next page
+  const stitchCfg = !['0', 'false', 'off'].includes((sp.get('stitch') ?? process.env.TABLE_STITCH ?? '').toLowerCase());
+  // deskew=0 sends page images as rendered instead of undoing rotation/skew
+  const deskewCfg = !['0', 'false', 'off'].includes((sp.get('deskew') ?? process.env.PAGE_DESKEW ?? '').toLowerCase());
+  const pagesSpec = (sp.get('pages') || '').trim();
+  const excludeSpec = (sp.get('exclude') || '').trim();
+  const extractMode = (sp.get('mode') || 'vision').trim().toLowerCase() as ExtractMode;
+  if (!['vision', 'text', 'auto'].includes(extractMode)) {
+    return { error: `Invalid mode: ${extractMode}. Use vision, text or auto.`, status: 400 };
+  }
+  // Default to all pages if no explicit max provided
+  const maxPagesCfg = Number.isFinite(maxPagesParam) && maxPagesParam > 0 ? Math.min(maxPagesParam, 50) : Number.POSITIVE_INFINITY;
+  const scaleCfg = Number.isFinite(scaleParam) && scaleParam >= 1 && scaleParam <= 4 ? scaleParam : envScale;
+  const startPageCfg = Number.isFinite(startParam) && startParam > 0 ? Math.floor(startParam) : 1;
+  const endPageCfgRaw = Number.isFinite(endParam) && endParam > 0 ? Math.floor(endParam) : undefined;
+  const concurrencyCfg = Math.min(
+    LIMITS.maxInflightPages,
+    Number.isFinite(concurrencyParam) && concurrencyParam >= 1 && concurrencyParam <= 5 ? Math.floor(concurrencyParam) : envConcurrency,
+  );
+  const maxCostCfg = Number.isFinite(maxCostParam) && maxCostParam > 0 ? maxCostParam : 0;
+  const retriesCfg = retriesParam !== null && Number.isFinite(Number(retriesParam)) && Number(retriesParam) >= 0 && Number(retriesParam) <= 5 ? Math.floor(Number(retriesParam)) : envRetries;
+
+  return {
+    params: {
+      extractMode,
+      scale: scaleCfg,
+      concurrency: concurrencyCfg,
+      retries: retriesCfg,
+      cache: cacheCfg,
+      regions: regionsCfg,
+      classify: classifyCfg,
+      forcePages: forceSpec,
+      stitch: stitchCfg,
+      deskew: deskewCfg,
+      maxCost: maxCostCfg,
+      selection: {
+        start: startPageCfg,
+        end: endPageCfgRaw,
+        maxPages: maxPagesCfg,
+        pages: pagesSpec,
+        exclude: excludeSpec,
+      },
+    },
+  };
+}
+
+// markdown (default) or json: json adds the structured tables of every page
+export type OutputFormat = 'markdown' | 'json';
+
+export function parseOutputFormat(sp: URLSearchParams): { output: OutputFormat } | RequestFailure {
+  const output = (sp.get('output') || 'markdown').trim().toLowerCase();
+  if (output !== 'markdown' && output !== 'json') {
+    return { error: `Invalid output: ${output}. Use markdown or json.`, status: 400 };
+  }
+  return { output };
+}
+
+const IMAGE_MIME: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+};
+
+// Upper bound on documents converted from one multi-file/ZIP request
+const BATCH_MAX_FILES = Number(process.env.BATCH_MAX_FILES) || 50;
+
+export interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+const startsWith = (bytes: Uint8Array, magic: number[]) => magic.every((b, i) => bytes[i] === b);
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+const OLE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// "%PDF-" may follow a few junk bytes; pdfjs accepts it within the first KB
+function isPdf(bytes: Uint8Array) {
+  return Buffer.from(bytes.subarray(0, 1024)).includes('%PDF-');
+}
+
+// CSV/HTML have no signature; binary content (NUL bytes) is rejected
+function isText(bytes: Uint8Array) {
+  return !bytes.subarray(0, 8192).includes(0);
+}
+
+// Content matches the container its extension/MIME type claims
+function documentMatches(format: DocumentFormat, bytes: Uint8Array) {
+  if (format === 'xlsx' || format === 'docx') return startsWith(bytes, ZIP_MAGIC);
+  if (format === 'xls') return startsWith(bytes, OLE_MAGIC);
+  return isText(bytes);
+}
+
+// ZIP archive to expand (Office files are ZIPs too, but have their own extension)
+function isZip(name: string, type: string, bytes: Uint8Array) {
+  return startsWith(bytes, ZIP_MAGIC) && !['xlsx', 'docx'].includes(detectDocumentFormat(name, type) ?? '');
+}
+
+// One uploaded (or unzipped) file as a conversion input, typed by its magic
+// bytes; the name/MIME type only tell the signature-less formats apart.
+// null for unsupported or mislabelled content.
+function fileToInput(name: string, type: string, bytes: Uint8Array): ConvertInput | null {
+  const image = detectImageFormat(bytes);
+  if (image) {
+    const base64 = Buffer.from(bytes).toString('base64');
+    return { kind: 'image', dataUrl: `data:${IMAGE_MIME[image]};base64,${base64}`, fileName: name };
+  }
+  if (isPdf(bytes)) {
+    // Store PDF bytes as Uint8Array for pdfjs
+    return { kind: 'pdf', data: bytes, fileName: name };
+  }
+  const format = detectDocumentFormat(name, type);
+  if (format && documentMatches(format, bytes)) {
+    return { kind: 'document', format, data: bytes, fileName: name };
+  }
+  return null;
+}
+
+const tooLarge = (what: string, bytes: number): RequestFailure => ({
+  error: `${what} is ${formatBytes(bytes)} (max ${formatBytes(LIMITS.maxUploadBytes)}).`,
+  status: 413,
+  code: 'UPLOAD_TOO_LARGE',
+});
+
+// Inflate one ZIP entry, giving up (null) once it passes `cap` bytes, so a
+// zip bomb never sits in memory whatever size its header declares
+function inflateCapped(entry: JSZip.JSZipObject, cap: number): Promise<Uint8Array | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= cap) chunks.push(chunk);
+      else {
+        // Stops inflating and releases the buffered chunks
+        stream.destroy();
+        resolve(null);
+      }
+    });
+    stream.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks, size))));
+    stream.on('error', reject);
+  });
+}
+
+// Every supported file inside a ZIP (folders, macOS metadata and hidden files are ignored).
+// The unzipped total counts against MAX_UPLOAD_MB.
+async function expandZip(name: string, bytes: Uint8Array, skipped: SkippedFile[]): Promise<ConvertInput[] | RequestFailure> {
+  const zip = await JSZip.loadAsync(bytes);
+  const inputs: ConvertInput[] = [];
+  const entries = Object.values(zip.files)
+    .filter(e => !e.dir && !e.name.startsWith('__MACOSX/') && !e.name.split('/').pop()!.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  let total = 0;
+  for (const entry of entries) {
+    const entryName = `${name}/${entry.name}`;
+    const data = await inflateCapped(entry, LIMITS.maxUploadBytes - total);
+    if (!data) {
+      return { error: `Unzipped content of ${name} is over ${formatBytes(LIMITS.maxUploadBytes)}.`, status: 413, code: 'UPLOAD_TOO_LARGE' };
+    }
+    total += data.length;
+    if (isZip(entry.name, '', data)) {
+      skipped.push({ name: entryName, reason: 'Nested ZIP archives are not supported.' });
+      continue;
+    }
+    const input = fileToInput(entry.name.split('/').pop()!, '', data);
+    if (input) inputs.push({ ...input, fileName: entry.name });
+    else skipped.push({ name: entryName, reason: 'Unsupported file type.' });
+  }
+  return inputs;
+}
+
+// All files of a request. `batch` is set for several `file` fields or a ZIP
+// archive; a single plain file keeps the one-document response shape.
+export async function readConvertInputs(
+  request: Request,
+): Promise<{ inputs: ConvertInput[]; skipped: SkippedFile[]; batch: boolean } | RequestFailure> {
+  const contentType = request.headers.get('content-type') || '';
+  // Rejected before the body is read; base64 JSON bodies get a third on top for the encoding
+  const declared = Number(request.headers.get('content-length'));
+  const bodyLimit = contentType.includes('application/json') ? LIMITS.maxUploadBytes * 4 / 3 + 1024 : LIMITS.maxUploadBytes + 64 * 1024;
+  if (Number.isFinite(declared) && declared > bodyLimit) {
+    return tooLarge('Request body', declared);
+  }
+
+  if (contentType.includes('application/json')) {
+    const body = await request.json();
+    const dataUrl = body?.dataUrl;
+    if (typeof dataUrl === 'string' && dataUrl.startsWith('data:image/')) {
+      const bytes = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+      if (bytes.length > LIMITS.maxUploadBytes) return tooLarge('Image', bytes.length);
+      if (!detectImageFormat(bytes)) {
+        return { error: 'The dataUrl does not contain a supported image.', status: 415, code: 'UNSUPPORTED_FILE_TYPE' };
+      }
+      return { inputs: [{ kind: 'image', dataUrl }], skipped: [], batch: false };
+    }
+    return { error: 'Invalid payload. Provide image dataUrl for JSON requests.', status: 400 };
+  }
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    const files = [...form.getAll('file'), ...form.getAll('files')].filter((f): f is File => f instanceof File);
+    if (files.length === 0) {
+      return { error: 'No file field found in form-data (expected name: "file").', status: 400 };
+    }
+    const uploaded = files.reduce((sum, f) => sum + f.size, 0);
+    if (uploaded > LIMITS.maxUploadBytes) return tooLarge(files.length > 1 ? 'Upload' : files[0].name || 'File', uploaded);
+
+    const inputs: ConvertInput[] = [];
+    const skipped: SkippedFile[] = [];
+    let batch = files.length > 1;
+    for (const file of files) {
+      const fileType = (file.type || '').toLowerCase();
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (isZip(file.name || '', fileType, bytes)) {
+        batch = true;
+        try {
+          const expanded = await expandZip(file.name, bytes, skipped);
+          if ('error' in expanded) return expanded;
+          inputs.push(...expanded);
+        } catch (e: any) {
+          skipped.push({ name: file.name, reason: `Unreadable ZIP archive: ${e?.message || e}` });
+        }
+        continue;
+      }
+      const input = fileToInput(file.name || '', fileType, bytes);
+      if (input) inputs.push(input);
+      else if (!batch) {
+        return {
+          error: `Unsupported or mislabelled file: ${file.name || fileType || 'unknown'}. Use PNG/JPEG/GIF/WebP/BMP/TIFF/HEIC images, PDF, .xlsx, .xls, .docx, .html or .csv.`,
+          status: 415,
+          code: 'UNSUPPORTED_FILE_TYPE',
+        };
+      } else skipped.push({ name: file.name, reason: `Unsupported or mislabelled file type: ${fileType || 'unknown'}.` });
+    }
+    if (inputs.length === 0) {
+      return {
+        error: `No supported files found (${skipped.map(s => `${s.name}: ${s.reason}`).join('; ')}).`,
+        status: 415,
+        code: 'UNSUPPORTED_FILE_TYPE',
+      };
+    }
+    if (inputs.length > BATCH_MAX_FILES) {
+      return { error: `Too many files: ${inputs.length} (max ${BATCH_MAX_FILES}).`, status: 400 };
+    }
+    // One password for every PDF of the request
+    const password = form.get('password');
+    if (typeof password === 'string' && password) {
+      for (const input of inputs) if (input.kind === 'pdf') input.password = password;
+    }
+    return { inputs, skipped, batch };
+  }
+
+  return {
+    error: 'Unsupported Content-Type. Use application/json (with image dataUrl) or multipart/form-data (with file).',
+    status: 415,
+  };
+}
+
+// Single-document variant used where batches are not supported
+export async function readConvertInput(request: Request): Promise<{ input: ConvertInput } | RequestFailure> {
+  const read = await readConvertInputs(request);
+  if ('error' in read) return read;
+  if (read.batch) {
+    return { error: 'Only a single file is supported here; send multiple files or ZIP archives to /api/convert.', status: 400 };
+  }
+  return { input: read.inputs[0] };
+}
+
+// Checks that need both the input and the parameters
+export function checkConvertRequest(input: ConvertInput, params: ConvertParams, llm: LLMProvider | null): RequestFailure | null {
+  if (input.kind === 'image' && params.extractMode === 'text') {
+    return { error: 'mode=text requires a PDF with a text layer.', status: 400 };
+  }
+  // Documents are read natively and never need the model
+  if (!llm && (input.kind === 'image' || (input.kind === 'pdf' && params.extractMode === 'vision'))) {
+    return { error: 'LLM provider not initialized', status: 500 };
+  }
+  return null;
+}
@@ -0,0 +1,625 @@
+import type { PageSelection } from '@/lib/pdf';
+import { loadPdfDocument, parsePageSpec, renderPageToDataUrl, selectPages } from '@/lib/pdf';
+import { getPageTextItems, hasUsableTextLayer, type TextItem } from '@/lib/pdf-text';
+import { extractPageTables } from '@/lib/pdf-tables';
+import { parseMarkdownTables, tablesToMarkdown, type Region, type StructuredTable } from '@/lib/table-structure';
+import { addUsage, emptyUsage, usageCost, type LLMProvider, type LLMUsage } from '@/lib/llm';
+import { assemblePageMarkdown } from '@/lib/page-markdown';
+import { withRetry, type RetryOptions } from '@/lib/retry';
+import { cacheGet, cacheKey, cachePut, hashBytes } from '@/lib/cache';
+import type { ConvertInput } from '@/lib/convert-request';
+import type { DocumentFormat } from '@/lib/document-formats';
+import { extractDocumentSections } from '@/lib/documents';
+import { mergeCropResults, planCrops, type Crop } from '@/lib/regions';
+import { openImage, type DecodedImage } from '@/lib/images';
+import { classifyPage, type SkippedPage } from '@/lib/page-classify';
+import { verifyTableNumbers, type NumericWarning } from '@/lib/verify-numbers';
+import { DEFAULT_TEMPLATE, type PromptTemplate, type TemplateRef } from '@/lib/prompt-templates';
+import { correctOrientation, type PageCorrection } from '@/lib/orientation';
+import { checkPageCount, fitRenderScale, pageSlots, type PageQuota } from '@/lib/limits';
+import { createLimiter, type Limiter } from '@/lib/concurrency';
+import { GENERIC_VISION_PROMPT } from '@/lib/generic-prompt';
+
+// vision: render pages and call the model; text: PDF text layer only; auto: text layer when present
+export type ExtractMode = 'vision' | 'text' | 'auto';
+
+export interface ConvertOptions {
+  llm: LLMProvider | null;
+  extractMode: ExtractMode;
+  scale: number;
+  concurrency: number;
+  // Extra attempts per page for retryable model errors (429, 5xx, timeouts)
+  retries: number;
+  // Reuse cached page renders and model responses (cache=0 bypasses)
+  cache: boolean;
+  // Never write page renders or model responses to the disk cache (decrypted content of protected PDFs)
+  noStore?: boolean;
+  // Send detected table regions / overlapping tiles of large pages instead of the whole image
+  regions: boolean;
+  // Skip pages the pre-classifier finds without tables (opt-in with classify=1; skipped pages are reported)
+  classify: boolean;
+  // Page spec of pages always sent to the model, overriding the pre-classifier
+  forcePages: string;
+  // Merge tables continuing across pages in the markdown (stitch=0 keeps the raw per-page output)
+  stitch: boolean;
+  // Undo quarter turns and skew of page images before the model call (deskew=0 sends them as rendered)
+  deskew: boolean;
+  selection: PageSelection;
+  // Request origin, used to resolve pdfjs fonts/cmaps served from public/
+  origin: string;
+  // Stops scheduling further pages; pages already in flight are allowed to finish
+  signal?: AbortSignal;
+  // Shared across the documents of a batch so `concurrency` is one global budget
+  limiter?: Limiter;
+  // USD cap on model calls (0 = none); pages that would exceed it are not sent
+  maxCost: number;
+  // Shared across the documents of a batch like `limiter`
+  budget?: CostBudget;
+  // Pages taken from MAX_REQUEST_PAGES, shared across the documents of a batch like `limiter`
+  pageQuota?: PageQuota;
+  // Prompt template (?template=); the bundled generic prompt when unset
+  template?: PromptTemplate;
+}
+
+export interface PageResult {
+  page: number;
+  // native: tables read directly from an XLSX/XLS/CSV/HTML/DOCX upload
+  method: 'text' | 'vision' | 'native';
+  // Sheet/section heading for documents; PDF pages use "Page N"
+  title?: string;
+  content: string;
+  // Tables behind `content`; parsed from the markdown for vision pages
+  tables: StructuredTable[];
+  usage: LLMUsage;
+  // Served from the response cache; usage is zero then
+  cached: boolean;
+  // Crops sent to the model when the image was split into table regions or tiles
+  regions?: Region[];
+  // Numbers in vision output missing from the page's text layer (PDF pages with a text layer)
+  warnings?: NumericWarning[];
+  // Orientation fix applied to the page image, and /Rotate of PDF pages
+  correction?: PageCorrection;
+  // Corrected page image (PNG data URL), set only when the image was turned
+  image?: string;
+}
+
+export interface FailedPage {
+  page: number;
+  error: string;
+  status?: number;
+  attempts: number;
+}
+
+export interface ConvertResult {
+  markdown: string;
+  usage: LLMUsage;
+  pages: PageResult[];
+  failedPages: FailedPage[];
+  // Pages the pre-classifier kept away from the model
+  skippedPages: SkippedPage[];
+  // All numeric warnings of the converted pages
+  warnings: NumericWarning[];
+  // Pages not sent to the model because `maxCost` was reached
+  overBudgetPages: number[];
+}
+
+// Progress events emitted while a document is converted
+export type ConvertEvent =
+  // `template` is added by the routes
+  | { type: 'start'; pages: number[]; template?: TemplateRef }
+  | { type: 'page-rendered'; page: number }
+  | { type: 'page' } & PageResult
+  | { type: 'page-retry'; page: number; attempt: number; delayMs: number; error: string }
+  | { type: 'page-error' } & FailedPage
+  | { type: 'page-skipped' } & SkippedPage
+  | { type: 'page-over-budget'; page: number; spent: number; maxCost: number }
+  | {
+    type: 'done';
+    markdown: string;
+    usage: LLMUsage;
+    failedPages: FailedPage[];
+    skippedPages: SkippedPage[];
+    overBudgetPages: number[];
+  };
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    const err = new Error('Conversion cancelled');
+    err.name = 'AbortError';
+    throw err;
+  }
+}
+
+function requireProvider(llm: LLMProvider | null): LLMProvider {
+  if (!llm) throw new Error('LLM provider not initialized');
+  return llm;
+}
+
+export type CostBudget = ReturnType<typeof createCostBudget>;
+
+// Tokens assumed per page until the first page has settled: a large page image and a long table answer
+const FIRST_PAGE_TOKENS = { prompt_tokens: 6000, completion_tokens: 3000 };
+
+// Admits model calls while the spend stays under `maxCost` (USD; 0 = unlimited).
+// The next page is estimated at the average cost of the pages settled so far, or
+// at FIRST_PAGE_TOKENS priced for `model` before any has, counting pages still in
+// flight. A page that would fit on its own waits for pages in flight to settle;
+// once a page is refused every later one is too.
+export function createCostBudget(maxCost: number, model?: string) {
+  const reserve = model ? usageCost(model, FIRST_PAGE_TOKENS) : 0;
+  let spent = 0;
+  let settled = 0;
+  let inFlight = 0;
+  let exhausted = false;
+  const waiting: (() => void)[] = [];
+  return {
+    maxCost,
+    spent: () => spent,
+    async admit(): Promise<boolean> {
+      if (maxCost <= 0) return true;
+      for (;;) {
+        const estimate = settled > 0 ? spent / settled : reserve;
+        if (exhausted || spent >= maxCost || spent + estimate > maxCost) {
+          exhausted = true;
+          return false;
+        }
+        if (spent + (inFlight + 1) * estimate <= maxCost) {
+          inFlight++;
+          return true;
+        }
+        await new Promise<void>(resolve => waiting.push(resolve));
+      }
+    },
+    // Called once per admitted page; `usage` is null when the page failed
+    settle(usage: LLMUsage | null, cached = false) {
+      if (maxCost <= 0) return;
+      inFlight--;
+      if (usage) {
+        spent += usage.cost || 0;
+        // Cache hits are free and would drag the estimate down
+        if (!cached) settled++;
+      }
+      for (const wake of waiting.splice(0)) wake();
+    },
+  };
+}
+
+const NO_TABLES = 'No tables detected in the image.';
+
+type VisionResult = Pick<PageResult, 'content' | 'tables' | 'usage' | 'cached' | 'regions'>;
+
+// Vision call(s) for one image. Each crop is answered from the cache or sent to
+// the model on its own; the crop results are merged back in reading order.
+// A whole-page crop keeps the cache key used before region detection existed.
+async function recognizeImage(
+  provider: LLMProvider,
+  dataUrl: string,
+  keyBase: (string | number)[],
+  label: string,
+  options: ConvertOptions,
+  retry: Pick<RetryOptions, 'onRetry'> & { onAttempt?: (attempts: number) => void } = {},
+): Promise<VisionResult> {
+  const crops: Crop[] = options.regions
+    ? await planCrops(dataUrl)
+    : [{ region: { x0: 0, y0: 0, x1: 1, y1: 1, kind: 'page' }, dataUrl }];
+  if (crops.length > 1 || crops[0].region.kind !== 'page') {
+    console.log(`${label}: ${crops.length} ${crops[0].region.kind === 'table' ? 'table region' : 'crop'}(s)`);
+  }
+
+  const prompt = options.template?.vision ?? GENERIC_VISION_PROMPT;
+  const template = options.template?.name ?? DEFAULT_TEMPLATE;
+  const usage = emptyUsage();
+  const results: { region: Region; content: string }[] = [];
+  let cached = true;
+  for (const [idx, crop] of crops.entries()) {
+    throwIfAborted(options.signal);
+    const { region } = crop;
+    const coords = [region.x0, region.y0, region.x1, region.y1].map(v => v.toFixed(4)).join(',');
+    const regionKey = region.kind === 'page' ? [] : [region.kind === 'rest' ? `rest:${coords}` : coords];
+    const key = cacheKey([...keyBase, ...regionKey, prompt, provider.name, provider.settings.model]);
+    const hit = options.cache ? await cacheGet('markdown', key) : null;
+    if (hit) {
+      results.push({ region, content: hit.toString('utf8') });
+      continue;
+    }
+    cached = false;
+    const response = await withRetry((attempt) => {
+      throwIfAborted(options.signal);
+      retry.onAttempt?.(attempt + 1);
+      const part = crops.length > 1 ? ` [crop ${idx + 1}/${crops.length}]` : '';
+      console.log(`Calling ${provider.name} (${provider.settings.model}) for ${label}${part}${attempt > 0 ? `, retry ${attempt}` : ''}`);
+      return provider.completeVision(prompt, crop.dataUrl, { template, input: hashBytes(crop.dataUrl) });
+    }, { retries: options.retries, onRetry: retry.onRetry });
+    addUsage(usage, response.usage);
+    const content = response.content.trim();
+    if (content && !options.noStore) await cachePut('markdown', key, content);
+    results.push({ region, content });
+  }
+
+  if (crops.length === 1 && crops[0].region.kind === 'page') {
+    const { region, content } = results[0];
+    return { content, tables: parseMarkdownTables(content).map(t => ({ ...t, region })), usage, cached };
+  }
+  const tables = mergeCropResults(results);
+  return {
+    content: tables.length > 0 ? tablesToMarkdown(tables) : NO_TABLES,
+    tables,
+    usage,
+    cached,
+    regions: crops.map(c => c.region),
+  };
+}
+
+export async function convertImage(
+  dataUrl: string,
+  options: ConvertOptions,
+  onEvent: (event: ConvertEvent) => void = () => {},
+): Promise<ConvertResult> {
+  const provider = requireProvider(options.llm);
+  const image = await openImage(dataUrl);
+  if (image.pageCount > 1) return convertImagePages(image, hashBytes(dataUrl), options, onEvent);
+  onEvent({ type: 'start', pages: [1] });
+  const limit = options.limiter ?? ((fn) => fn());
+  const budget = options.budget ?? createCostBudget(options.maxCost, options.llm?.settings.model);
+  const oriented = await orientPage(await image.page(1), options);
+  const result = await limit(() => pageSlots()(async () => {
+    if (!(await budget.admit())) return null;
+    try {
+      const recognized = await recognizeImage(
+        provider,
+        oriented.dataUrl,
+        ['image', hashBytes(dataUrl), ...oriented.key],
+        'image',
+        options,
+      );
+      budget.settle(recognized.usage, recognized.cached);
+      return recognized;
+    } catch (err) {
+      budget.settle(null);
+      throw err;
+    }
+  }));
+  if (!result) {
+    console.log(`Image not converted: cost budget of $${budget.maxCost} reached`);
+    onEvent({ type: 'page-over-budget', page: 1, spent: budget.spent(), maxCost: budget.maxCost });
+    const usage = emptyUsage();
+    onEvent({ type: 'done', markdown: '', usage, failedPages: [], skippedPages: [], overBudgetPages: [1] });
+    return { markdown: '', usage, pages: [], failedPages: [], skippedPages: [], warnings: [], overBudgetPages: [1] };
+  }
+  console.log(result.cached ? 'Image served from cache' : 'LLM response (image) received');
+  const page: PageResult = {
+    page: 1,
+    method: 'vision',
+    ...result,
+    content: result.content || 'No content extracted',
+    ...oriented.meta,
+  };
+  onEvent({ type: 'page', ...page });
+  onEvent({ type: 'done', markdown: page.content, usage: page.usage, failedPages: [], skippedPages: [], overBudgetPages: [] });
+  return { markdown: page.content, usage: page.usage, pages: [page], failedPages: [], skippedPages: [], warnings: [], overBudgetPages: [] };
+}
+
+// Straighten a page image when `options.deskew` is set, unless the page is
+// born-digital (`upright`: its text layer fixes the orientation). `key` extends
+// the response cache key of a corrected image; `meta` goes into the PageResult.
+async function orientPage(dataUrl: string, options: ConvertOptions, pdfRotate = 0, upright = false) {
+  const { dataUrl: oriented, correction } = options.deskew && !upright
+    ? await correctOrientation(dataUrl)
+    : { dataUrl, correction: null };
+  const report: PageCorrection | null = correction || pdfRotate
+    ? { rotation: 0, skew: 0, ...correction, ...(pdfRotate ? { pdfRotate } : {}) }
+    : null;
+  if (correction) console.log(`Page image corrected: turned ${correction.rotation}°, deskewed ${correction.skew}°`);
+  return {
+    dataUrl: oriented,
+    key: correction ? [`orient:${correction.rotation}:${correction.skew}`] : [],
+    meta: {
+      ...(report ? { correction: report } : {}),
+      ...(correction ? { image: oriented } : {}),
+    } as Pick<PageResult, 'correction' | 'image'>,
+  };
+}
+
+// Page bookkeeping shared by multi-page inputs (PDF, multi-page TIFF)
+function pageCollector(options: ConvertOptions, onEvent: (event: ConvertEvent) => void) {
+  const usage = emptyUsage();
+  const results: PageResult[] = [];
+  const failedPages: FailedPage[] = [];
+  const skippedPages: SkippedPage[] = [];
+  const overBudgetPages: number[] = [];
+  const push = (result: PageResult) => {
+    results.push(result);
+    addUsage(usage, result.usage);
+    onEvent({ type: 'page', ...result });
+  };
+  // A failing page is recorded and reported; it never discards the pages that succeeded
+  const fail = (page: number, err: any, attempts: number) => {
+    console.error(`Page ${page} failed after ${attempts} attempt(s):`, err?.message || err);
+    const failed: FailedPage = { page, error: err?.message || String(err), attempts };
+    if (Number.isFinite(Number(err?.status))) failed.status = Number(err.status);
+    failedPages.push(failed);
+    onEvent({ type: 'page-error', ...failed });
+  };
+  const skip = (page: number, reason: string) => {
+    console.log(`Page ${page} skipped: ${reason}`);
+    skippedPages.push({ page, reason });
+    onEvent({ type: 'page-skipped', page, reason });
+  };
+  const overBudget = (page: number, budget: CostBudget) => {
+    overBudgetPages.push(page);
+    onEvent({ type: 'page-over-budget', page, spent: budget.spent(), maxCost: budget.maxCost });
+  };
+  const finish = (): ConvertResult => {
+    results.sort((a, b) => a.page - b.page);
+    failedPages.sort((a, b) => a.page - b.page);
+    skippedPages.sort((a, b) => a.page - b.page);
+    overBudgetPages.sort((a, b) => a - b);
+    if (overBudgetPages.length > 0) {
+      console.log(`Cost budget reached: ${overBudgetPages.length} page(s) not converted (${overBudgetPages.join(', ')})`);
+    }
+    const markdown = assemblePageMarkdown(results, { stitch: options.stitch });
+    onEvent({ type: 'done', markdown, usage, failedPages, skippedPages, overBudgetPages });
+    const warnings = results.flatMap(r => r.warnings ?? []);
+    return { markdown, usage, pages: results, failedPages, skippedPages, warnings, overBudgetPages };
+  };
+  return { results, push, fail, skip, overBudget, finish };
+}
+
+interface VisionPageHooks {
+  // Reason to skip the page before the model is called
+  precheck?: (page: number, dataUrl: string) => Promise<string | null>;
+  // Checks the tables the model produced
+  verify?: (page: number, tables: StructuredTable[]) => Promise<NumericWarning[]>;
+  // /Rotate of a PDF page (applied by the renderer, reported with the page)
+  pdfRotate?: (page: number) => Promise<number>;
+  // Whether the page has a usable text layer; its orientation is then already right
+  textLayer?: (page: number) => Promise<boolean>;
+}
+
+// Vision extraction of page images under the page concurrency limit.
+// `render` produces the image of a page, `keyBase` the cache key prefix of its response.
+async function convertVisionPages(
+  pages: number[],
+  label: string,
+  render: (page: number) => Promise<string>,
+  keyBase: (page: number) => (string | number)[],
+  options: ConvertOptions,
+  collector: ReturnType<typeof pageCollector>,
+  onEvent: (event: ConvertEvent) => void,
+  { precheck, verify, pdfRotate, textLayer }: VisionPageHooks = {},
+) {
+  const provider = requireProvider(options.llm);
+  const limit = options.limiter ?? createLimiter(options.concurrency);
+  const budget = options.budget ?? createCostBudget(options.maxCost, options.llm?.settings.model);
+  const forced = new Set(parsePageSpec(options.forcePages, Math.max(0, ...pages)));
+  // The per-request limit is taken first so one request cannot hold every global slot
+  await Promise.all(pages.map((pageNum, idx) => limit(() => pageSlots()(async () => {
+    if (options.signal?.aborted) return;
+    let attempts = 0;
+    try {
+      const oriented = await orientPage(
+        await render(pageNum),
+        options,
+        pdfRotate ? await pdfRotate(pageNum) : 0,
+        options.deskew && textLayer ? await textLayer(pageNum) : false,
+      );
+      const { dataUrl } = oriented;
+      onEvent({ type: 'page-rendered', page: pageNum });
+      if (options.classify && precheck && !forced.has(pageNum)) {
+        const reason = await precheck(pageNum, dataUrl);
+        if (reason) {
+          collector.skip(pageNum, reason);
+          return;
+        }
+      }
+      if (!(await budget.admit())) {
+        collector.overBudget(pageNum, budget);
+        return;
+      }
+      let result: VisionResult;
+      try {
+        result = await recognizeImage(
+          provider,
+          dataUrl,
+          [...keyBase(pageNum), ...oriented.key],
+          `${label} ${pageNum} (${idx + 1}/${pages.length})`,
+          options,
+          {
+            onAttempt: (n) => { attempts = n; },
+            onRetry: ({ attempt, delayMs, error }) => onEvent({
+              type: 'page-retry', page: pageNum, attempt, delayMs: Math.round(delayMs), error: (error as any)?.message || String(error),
+            }),
+          },
+        );
+      } catch (err) {
+        budget.settle(null);
+        throw err;
+      }
+      budget.settle(result.usage, result.cached);
+      const warnings = verify ? await verify(pageNum, result.tables) : [];
+      collector.push({
+        page: pageNum,
+        method: 'vision',
+        ...result,
+        ...(warnings.length > 0 ? { warnings } : {}),
+        ...oriented.meta,
+      });
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return;
+      collector.fail(pageNum, err, Math.max(1, attempts));
+    }
+  }))));
+  throwIfAborted(options.signal);
+}
+
+// Multi-page TIFF: every page is decoded to PNG and converted like a scanned PDF page
+async function convertImagePages(
+  image: DecodedImage,
+  fileHash: string,
+  options: ConvertOptions,
+  onEvent: (event: ConvertEvent) => void,
+): Promise<ConvertResult> {
+  const selectedPages = selectPages(image.pageCount, options.selection);
+  if (selectedPages.length === 0) {
+    throw new Error('No pages selected after applying include/exclude.');
+  }
+  checkPageCount(selectedPages.length, options.pageQuota);
+  onEvent({ type: 'start', pages: selectedPages });
+  const collector = pageCollector(options, onEvent);
+  await convertVisionPages(
+    selectedPages,
+    'TIFF page',
+    (page) => image.page(page),
+    (page) => ['image', fileHash, page],
+    options,
+    collector,
+    onEvent,
+    { precheck: (_page, dataUrl) => classifyPage(dataUrl) },
+  );
+  return collector.finish();
+}
+
+// Render a page, reusing a cached PNG for the same file bytes, page and scale
+async function renderPageCached(pdf: any, fileHash: string, pageNum: number, options: ConvertOptions): Promise<string> {
+  const key = cacheKey(['render', fileHash, pageNum, options.scale]);
+  const hit = options.cache ? await cacheGet('render', key) : null;
+  if (hit) return `data:image/png;base64,${hit.toString('base64')}`;
+  const page = await pdf.getPage(pageNum);
+  // Large-format pages are rendered at a lower scale to stay within MAX_PAGE_PIXELS
+  const { width, height } = page.getViewport({ scale: 1 });
+  const scale = fitRenderScale(width, height, options.scale);
+  if (scale < options.scale) console.log(`Page ${pageNum}: render scale lowered to ${scale.toFixed(2)} (pixel limit)`);
+  const dataUrl = await renderPageToDataUrl(page, scale);
+  if (!options.noStore) await cachePut('render', key, Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64'));
+  return dataUrl;
+}
+
+export async function convertPdf(
+  data: Uint8Array,
+  options: ConvertOptions,
+  onEvent: (event: ConvertEvent) => void = () => {},
+  password?: string,
+): Promise<ConvertResult> {
+  // Renders and answers of a protected PDF would sit decrypted in the cache directory
+  if (password) options = { ...options, cache: false, noStore: true };
+  const pdf = await loadPdfDocument(data, options.origin, password);
+  const selectedPages = selectPages(pdf.numPages, options.selection);
+  if (selectedPages.length === 0) {
+    throw new Error('No pages selected after applying include/exclude.');
+  }
+  checkPageCount(selectedPages.length, options.pageQuota);
+  onEvent({ type: 'start', pages: selectedPages });
+  const fileHash = hashBytes(data);
+
+  const collector = pageCollector(options, onEvent);
+  const { results, push, fail } = collector;
+  // Text items are needed by the pre-classifier and the numeric check of the same page
+  const textItems = new Map<number, Promise<TextItem[]>>();
+  const pageText = (pageNum: number) => {
+    if (!textItems.has(pageNum)) textItems.set(pageNum, pdf.getPage(pageNum).then(getPageTextItems));
+    return textItems.get(pageNum)!;
+  };
+
+  // Text-layer extraction: every page in `text` mode, pages with enough text in `auto` mode
+  let visionPages: number[] = selectedPages;
+  if (options.extractMode !== 'vision') {
+    visionPages = [];
+    for (const i of selectedPages) {
+      throwIfAborted(options.signal);
+      try {
+        const page = await pdf.getPage(i);
+        const items = await getPageTextItems(page);
+        if (options.extractMode === 'text' || hasUsableTextLayer(items)) {
+          const tables = await extractPageTables(page, items);
+          push({ page: i, method: 'text', content: tablesToMarkdown(tables), tables, usage: emptyUsage(), cached: false });
+        } else {
+          visionPages.push(i);
+        }
+      } catch (err) {
+        fail(i, err, 1);
+      }
+    }
+    console.log(`Extracted ${results.length} page(s) from the text layer`);
+  }
+
+  if (visionPages.length > 0) {
+    await convertVisionPages(
+      visionPages,
+      'PDF page',
+      (page) => renderPageCached(pdf, fileHash, page, options),
+      (page) => ['markdown', fileHash, page, options.scale],
+      options,
+      collector,
+      onEvent,
+      {
+        precheck: async (pageNum, dataUrl) => {
+          const items = await pageText(pageNum);
+          const usable = hasUsableTextLayer(items);
+          return classifyPage(dataUrl, { usable, tables: usable ? (await extractPageTables(await pdf.getPage(pageNum), items)).length : 0 });
+        },
+        verify: async (pageNum, tables) => {
+          const items = await pageText(pageNum);
+          if (!hasUsableTextLayer(items)) return [];
+          const warnings = verifyTableNumbers(pageNum, tables, items);
+          if (warnings.length > 0) console.warn(`Page ${pageNum}: ${warnings.length} number(s) not found in the text layer`);
+          return warnings;
+        },
+        // pdfjs renders pages with their /Rotate applied
+        pdfRotate: async (pageNum) => (await pdf.getPage(pageNum)).rotate || 0,
+        textLayer: async (pageNum) => hasUsableTextLayer(await pageText(pageNum)),
+      },
+    );
+  }
+
+  return collector.finish();
+}
+
+// Spreadsheets and HTML/DOCX: every sheet or section is reported like a page
+export async function convertDocument(
+  format: DocumentFormat,
+  data: Uint8Array,
+  options: ConvertOptions,
+  onEvent: (event: ConvertEvent) => void = () => {},
+): Promise<ConvertResult> {
+  const sections = await extractDocumentSections(format, data);
+  if (sections.length === 0) {
+    throw new Error(`No sheets or tables found in the ${format.toUpperCase()} document.`);
+  }
+  const selected = selectPages(sections.length, options.selection);
+  if (selected.length === 0) {
+    throw new Error('No pages selected after applying include/exclude.');
+  }
+  onEvent({ type: 'start', pages: selected });
+
+  const results: PageResult[] = [];
+  for (const idx of selected) {
+    throwIfAborted(options.signal);
+    const section = sections[idx - 1];
+    const result: PageResult = {
+      page: idx,
+      method: 'native',
+      title: section.title,
+      content: tablesToMarkdown(section.tables),
+      tables: section.tables,
+      usage: emptyUsage(),
+      cached: false,
+    };
+    results.push(result);
+    onEvent({ type: 'page', ...result });
+  }
+  console.log(`Extracted ${results.length} section(s) from ${format.toUpperCase()} document`);
+  const markdown = assemblePageMarkdown(results);
+  const usage = emptyUsage();
+  onEvent({ type: 'done', markdown, usage, failedPages: [], skippedPages: [], overBudgetPages: [] });
+  return { markdown, usage, pages: results, failedPages: [], skippedPages: [], warnings: [], overBudgetPages: [] };
+}
+
+export function runConversion(
+  input: ConvertInput,
+  options: ConvertOptions,
+  onEvent?: (event: ConvertEvent) => void,
+): Promise<ConvertResult> {
+  if (input.kind === 'image') return convertImage(input.dataUrl, options, onEvent);
+  if (input.kind === 'document') return convertDocument(input.format, input.data, options, onEvent);
+  return convertPdf(input.data, options, onEvent, input.password);
+}
@@ -0,0 +1,33 @@
+// Office/web documents whose tables are read natively (no model call).
+// Shared by the server and the upload drop zone.
+
+export type DocumentFormat = 'xlsx' | 'xls' | 'csv' | 'html' | 'docx';
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  xlsx: 'xlsx',
+  xls: 'xls',
+  csv: 'csv',
+  html: 'html',
+  htm: 'html',
+  docx: 'docx',
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-excel': 'xls',
+  'text/csv': 'csv',
+  'text/html': 'html',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+export const DOCUMENT_ACCEPT = [
+  ...Object.keys(EXTENSIONS).map(ext => `.${ext}`),
+  ...Object.keys(MIME_TYPES),
+].join(',');
+
+// The extension wins over the MIME type: browsers on Windows report .csv as application/vnd.ms-excel
+export function detectDocumentFormat(fileName?: string, mimeType?: string): DocumentFormat | null {
+  const ext = (fileName || '').toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (ext && EXTENSIONS[ext]) return EXTENSIONS[ext];
+  return MIME_TYPES[(mimeType || '').toLowerCase().split(';')[0].trim()] ?? null;
+}
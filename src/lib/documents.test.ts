@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import { extractDocumentSections } from '@/lib/documents';
+import { LIMITS } from '@/lib/limits';
+import { tableRows, tableToGrid } from '@/lib/table-structure';
+
+const html = (markup: string) => extractDocumentSections('html', new TextEncoder().encode(markup));
+
+const xlsx = (rows: string[][]) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'S');
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+};
+
+describe('spreadsheet sections', () => {
+  it('reads only the cells present when <dimension> claims the whole sheet', async () => {
+    const zip = await JSZip.loadAsync(xlsx([['a', 'b'], ['1', '2']]));
+    const path = 'xl/worksheets/sheet1.xml';
+    const xml = await zip.file(path)!.async('string');
+    zip.file(path, xml.replace(/<dimension ref="[^"]*"/, '<dimension ref="A1:XFD1048576"'));
+    const sections = await extractDocumentSections('xlsx', await zip.generateAsync({ type: 'uint8array' }));
+    expect(tableToGrid(sections[0].tables[0])).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('rejects sheets over the row limit', async () => {
+    const rows = Array.from({ length: LIMITS.maxSheetRows + 1 }, (_, i) => [String(i)]);
+    await expect(extractDocumentSections('xlsx', xlsx(rows))).rejects.toMatchObject({ code: 'SHEET_TOO_LARGE' });
+  });
+});
+
+describe('html sections', () => {
+  it('places rowspan/colspan cells on the grid', async () => {
+    const sections = await html(
+      '<table><tr><th rowspan="2">Item</th><th colspan="2">Rated</th></tr><tr><th>Min</th><th>Max</th></tr>'
+      + '<tr><td>Flow</td><td>100</td><td>250</td></tr></table>',
+    );
+    const table = sections[0].tables[0];
+    expect(table.header).toHaveLength(2);
+    expect(tableToGrid(table)).toEqual([['Item', 'Rated', 'Rated'], ['Item', 'Min', 'Max'], ['Flow', '100', '250']]);
+  });
+
+  it('clamps forged spans to the table size', async () => {
+    const sections = await html('<table><tr><td colspan="1000000" rowspan="99999999">x</td></tr><tr><td>y</td></tr></table>');
+    const [first] = tableRows(sections[0].tables[0])[0];
+    expect(first).toMatchObject({ text: 'x', rowSpan: 2, colSpan: 1000 });
+  });
+});
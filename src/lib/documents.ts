@@ -0,0 +1,195 @@
+import * as XLSX from 'xlsx';
+import mammoth from 'mammoth';
+import { parse, type HTMLElement } from 'node-html-parser';
+import type { DocumentFormat } from '@/lib/document-formats';
+import { LIMITS, limitError } from '@/lib/limits';
+import { gridToTable, tableRows, type GridSpan, type StructuredTable } from '@/lib/table-structure';
+
+// Native table extraction for spreadsheets (one section per sheet) and
+// HTML/DOCX (tables grouped under the nearest preceding heading).
+
+export interface DocumentSection {
+  title: string;
+  tables: StructuredTable[];
+}
+
+const cleanText = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+// Drop empty rows/columns of a sheet grid and remap merged ranges onto what is left
+function compactGrid(grid: string[][], spans: GridSpan[]): { grid: string[][]; spans: GridSpan[] } {
+  const keepRows = grid.map((_, r) => r).filter(r => grid[r].some(Boolean));
+  const width = Math.max(0, ...grid.map(r => r.length));
+  const keepCols = Array.from({ length: width }, (_, c) => c).filter(c => grid.some(row => row[c]));
+  const rowIndex = new Map(keepRows.map((r, i) => [r, i]));
+  const colIndex = new Map(keepCols.map((c, i) => [c, i]));
+  const inRange = (keep: number[], from: number, to: number) => keep.filter(v => v >= from && v <= to).length;
+
+  const remapped: GridSpan[] = [];
+  for (const s of spans) {
+    const row = rowIndex.get(s.row);
+    const col = colIndex.get(s.col);
+    if (row === undefined || col === undefined) continue;
+    const rowSpan = inRange(keepRows, s.row, s.row + s.rowSpan - 1);
+    const colSpan = inRange(keepCols, s.col, s.col + s.colSpan - 1);
+    if (rowSpan > 1 || colSpan > 1) remapped.push({ row, col, rowSpan, colSpan });
+  }
+  return {
+    grid: keepRows.map(r => keepCols.map(c => grid[r][c] ?? '')),
+    spans: remapped,
+  };
+}
+
+// Bounds of the cells a sheet actually holds; the declared `!ref` (the file's
+// <dimension>) can claim millions of rows for a few bytes of content
+function usedRange(sheet: XLSX.WorkSheet): XLSX.Range | null {
+  let range: XLSX.Range | null = null;
+  for (const key of Object.keys(sheet)) {
+    if (key.startsWith('!')) continue;
+    const { r, c } = XLSX.utils.decode_cell(key);
+    if (!range) range = { s: { r, c }, e: { r, c } };
+    range.s.r = Math.min(range.s.r, r);
+    range.s.c = Math.min(range.s.c, c);
+    range.e.r = Math.max(range.e.r, r);
+    range.e.c = Math.max(range.e.c, c);
+  }
+  return range;
+}
+
+function spreadsheetSections(data: Uint8Array, format: DocumentFormat): DocumentSection[] {
+  // One row past the limit is read so oversized sheets are rejected instead of cut off
+  const sheetRows = LIMITS.maxSheetRows + 1;
+  const workbook = format === 'csv'
+    ? XLSX.read(new TextDecoder('utf-8').decode(data), { type: 'string', raw: true, sheetRows })
+    : XLSX.read(data, { type: 'array', sheetRows });
+
+  return workbook.SheetNames.map((name, idx) => {
+    const sheet = workbook.Sheets[name];
+    const title = format === 'csv' ? `Sheet ${idx + 1}` : `Sheet ${name}`;
+    const range = sheet ? usedRange(sheet) : null;
+    if (!range) return { title, tables: [] };
+    const columns = range.e.c - range.s.c + 1;
+    if (range.e.r >= LIMITS.maxSheetRows || columns > LIMITS.maxSheetColumns) {
+      throw limitError(
+        'SHEET_TOO_LARGE',
+        `${title} is larger than ${LIMITS.maxSheetRows} rows × ${LIMITS.maxSheetColumns} columns.`,
+      );
+    }
+    const grid: string[][] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const row: string[] = [];
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+        // Formatted text as shown in Excel (number formats, dates)
+        row.push(cell ? cleanText(XLSX.utils.format_cell(cell)) : '');
+      }
+      grid.push(row);
+    }
+    // Merged ranges are clipped to the cells read
+    const merges: GridSpan[] = (sheet['!merges'] || [])
+      .filter(m => m.s.r >= range.s.r && m.s.r <= range.e.r && m.s.c >= range.s.c && m.s.c <= range.e.c)
+      .map(m => ({
+        row: m.s.r - range.s.r,
+        col: m.s.c - range.s.c,
+        rowSpan: Math.min(m.e.r, range.e.r) - m.s.r + 1,
+        colSpan: Math.min(m.e.c, range.e.c) - m.s.c + 1,
+      }));
+    const compact = compactGrid(grid, merges);
+    if (compact.grid.length === 0) return { title, tables: [] };
+    return { title, tables: [gridToTable(compact.grid, 'spreadsheet', compact.spans)] };
+  });
+}
+
+const ownRows = (table: HTMLElement) => table.querySelectorAll('tr').filter(tr => tr.closest('table') === table);
+const rowCells = (tr: HTMLElement) => tr.childNodes.filter((n): n is HTMLElement => (n as any).tagName === 'TD' || (n as any).tagName === 'TH');
+
+// Largest rowspan/colspan browsers honour
+const MAX_ROWSPAN = 65534;
+const MAX_COLSPAN = 1000;
+const colSpanOf = (cell: HTMLElement) => Math.max(1, Math.min(Number(cell.getAttribute('colspan')) || 1, MAX_COLSPAN));
+
+// Place cells on a grid honouring rowspan/colspan; <thead> rows (or leading
+// all-<th> rows) become header rows. Spans are clamped to the table's rows and
+// widest row so a forged rowspan/colspan cannot blow up the grid.
+function htmlTableToStructured(table: HTMLElement): StructuredTable | null {
+  const grid: string[][] = [];
+  const spans: GridSpan[] = [];
+  const occupied = new Set<string>();
+  let headerRows = 0;
+  let leadingHeader = true;
+
+  const trs = ownRows(table);
+  const width = trs.reduce((max, tr) => Math.max(max, rowCells(tr).reduce((sum, cell) => sum + colSpanOf(cell), 0)), 0);
+  if (trs.length * width > LIMITS.maxSheetRows * LIMITS.maxSheetColumns) {
+    throw limitError('SHEET_TOO_LARGE', `Table of ${trs.length} rows × ${width} columns is too large.`);
+  }
+
+  trs.forEach((tr, r) => {
+    grid[r] ??= [];
+    const cells = rowCells(tr);
+    const thead = tr.closest('thead');
+    const inThead = thead !== null && thead.closest('table') === table;
+    if (leadingHeader && cells.length > 0 && (inThead || cells.every(c => c.tagName === 'TH'))) headerRows = r + 1;
+    else leadingHeader = false;
+
+    let c = 0;
+    for (const cell of cells) {
+      while (occupied.has(`${r}:${c}`)) c++;
+      const rowSpan = Math.max(1, Math.min(Number(cell.getAttribute('rowspan')) || 1, MAX_ROWSPAN, trs.length - r));
+      const colSpan = Math.max(1, Math.min(colSpanOf(cell), width - c));
+      grid[r][c] = cleanText(cell.structuredText);
+      for (let rr = r; rr < r + rowSpan; rr++) {
+        for (let cc = c; cc < c + colSpan; cc++) occupied.add(`${rr}:${cc}`);
+      }
+      if (rowSpan > 1 || colSpan > 1) spans.push({ row: r, col: c, rowSpan, colSpan });
+      c += colSpan;
+    }
+  });
+
+  const rows = Array.from({ length: trs.length }, (_, r) => Array.from(grid[r] || [], v => v ?? ''));
+  if (rows.length === 0 || !rows.some(row => row.some(Boolean))) return null;
+
+  const result = gridToTable(rows, 'html', spans);
+  if (headerRows > 0 && headerRows < rows.length) {
+    const all = tableRows(result);
+    result.header = all.slice(0, headerRows);
+    result.body = all.slice(headerRows);
+  }
+  const caption = table.querySelector('caption');
+  if (caption && cleanText(caption.text)) result.footnotes.unshift(cleanText(caption.text));
+  return result;
+}
+
+function htmlSections(html: string): DocumentSection[] {
+  const root = parse(html, { blockTextElements: { script: false, style: false } });
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection | null = null;
+  let heading = '';
+  for (const el of root.querySelectorAll('h1, h2, h3, h4, h5, h6, table')) {
+    if (el.tagName !== 'TABLE') {
+      heading = cleanText(el.text);
+      current = null;
+      continue;
+    }
+    // Nested tables stay part of their parent's cell text
+    if (el.parentNode?.closest('table')) continue;
+    const table = htmlTableToStructured(el);
+    if (!table) continue;
+    if (!current) {
+      current = { title: `Section ${heading || sections.length + 1}`, tables: [] };
+      sections.push(current);
+    }
+    current.tables.push(table);
+  }
+  return sections;
+}
+
+export async function extractDocumentSections(format: DocumentFormat, data: Uint8Array): Promise<DocumentSection[]> {
+  if (format === 'html') {
+    return htmlSections(new TextDecoder('utf-8').decode(data));
+  }
+  if (format === 'docx') {
+    const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+    return htmlSections(value);
+  }
+  return spreadsheetSections(data, format);
+}
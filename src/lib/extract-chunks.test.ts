@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, mergeChunkItems, mergeFieldCandidates, reportChunks, splitMarkdownChunks } from '@/lib/extract-chunks';
+
+const table = (rows: number, label = 'Row') =>
+  ['| Item | Value |', '| --- | --- |', ...Array.from({ length: rows }, (_, i) => `| ${label} ${i + 1} | ${100 + i} |`)].join('\n');
+
+describe('splitMarkdownChunks', () => {
+  it('keeps short markdown in one chunk with its page', () => {
+    const markdown = `### Page 1\n\n${table(3)}`;
+    const [chunk, ...rest] = splitMarkdownChunks(markdown);
+    expect(rest).toEqual([]);
+    expect(chunk).toMatchObject({ index: 0, start: 0, end: markdown.length, pages: [1], cut: 0 });
+    expect(chunk.text).toContain(table(3));
+  });
+
+  it('starts a new chunk at a page heading once the current one is half full', () => {
+    const markdown = `### Page 1\n\n${table(20, 'A')}\n\n### Page 2\n\n${table(2, 'B')}`;
+    const chunks = splitMarkdownChunks(markdown, estimateTokens(table(30)));
+    expect(chunks.map(c => c.pages)).toEqual([[1], [2]]);
+    expect(chunks[1].text.startsWith('### Page 2')).toBe(true);
+  });
+
+  it('splits a long table by rows and repeats its header', () => {
+    const markdown = table(60);
+    const chunks = splitMarkdownChunks(markdown, 200);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith('| Item | Value |\n| --- | --- |')).toBe(true);
+      expect(chunk.tokens).toBeLessThanOrEqual(200);
+    }
+    const rows = chunks.flatMap(c => c.text.split('\n').slice(2));
+    expect(rows).toEqual(markdown.split('\n').slice(2));
+    // Ranges point into the markdown, past the repeated header
+    expect(markdown.slice(chunks[1].start, chunks[1].end)).toBe(chunks[1].text.split('\n').slice(2).join('\n'));
+  });
+
+  it('cuts lines longer than the budget and reports the cut', () => {
+    const long = 'x'.repeat(4000);
+    const [chunk] = splitMarkdownChunks(`${long}\n${long}`, 600);
+    expect(chunk.cut).toBe(2 * (4000 - 600));
+  });
+});
+
+describe('reportChunks', () => {
+  it('marks chunks past the extracted ones as dropped and counts their characters', () => {
+    const chunks = splitMarkdownChunks(table(60), 200);
+    const { chunks: reports, dropped } = reportChunks(chunks, ['ok', 'heuristic']);
+    expect(reports.map(r => r.status)).toEqual(['ok', 'heuristic', ...chunks.slice(2).map(() => 'dropped')]);
+    expect(reports[0]).not.toHaveProperty('text');
+    expect(dropped).toEqual({
+      chunks: chunks.length - 2,
+      characters: chunks.slice(2).reduce((n, c) => n + c.end - c.start, 0),
+    });
+  });
+
+  it('counts cut characters of extracted chunks', () => {
+    const long = 'x'.repeat(4000);
+    const chunks = splitMarkdownChunks(`${long}\n${long}`, 600);
+    expect(reportChunks(chunks, chunks.map(() => 'ok' as const)).dropped.characters).toBe(chunks.reduce((n, c) => n + c.cut, 0));
+  });
+});
+
+describe('merging chunk answers', () => {
+  it('takes the value found in most chunks and reports the conflict', () => {
+    const { value, conflict } = mergeFieldCandidates('Flow', [
+      { value: '250 m3/h', chunk: 0 },
+      { value: '300 m3/h', chunk: 1 },
+      { value: '250 m3/h', chunk: 2 },
+    ]);
+    expect(value).toBe('250 m3/h');
+    expect(conflict?.candidates).toEqual([{ value: '250 m3/h', chunks: [0, 2] }, { value: '300 m3/h', chunks: [1] }]);
+  });
+
+  it('ignores empty answers', () => {
+    expect(mergeFieldCandidates('Flow', [{ value: '', chunk: 0 }, { value: '250', chunk: 1 }])).toEqual({ value: '250', conflict: null });
+  });
+
+  it('groups items by label across chunks', () => {
+    const { items, conflicts } = mergeChunkItems([
+      { chunk: 0, items: [{ label: 'P-101', values: { Flow: '250' } }, { label: 'P-102', values: { Flow: '90' } }] },
+      { chunk: 1, items: [{ label: 'p 101', values: { Head: '45' } }] },
+    ]);
+    expect(items).toEqual([
+      { label: 'P-101', values: { Flow: '250', Head: '45' }, chunks: [0, 1] },
+      { label: 'P-102', values: { Flow: '90' }, chunks: [0] },
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+});
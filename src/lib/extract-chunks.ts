@@ -0,0 +1,252 @@
+import { normalizeValue } from '@/lib/units';
+import { specFor, validateValue, type FieldSchema } from '@/lib/field-schema';
+
+// Long markdown is extracted in chunks instead of being cut off. Chunks are
+// split on page headings, then on blocks (tables, paragraphs), then on table
+// rows with the header repeated, and are filled up to a token budget:
+// EXTRACT_CHUNK_TOKENS (default 5000) per chunk, EXTRACT_MAX_CHUNKS (default 8)
+// per request. Chunks over the limit are dropped and reported.
+
+export interface MarkdownChunk {
+  index: number;
+  // Character range of the chunk in the markdown (a split table's repeated header lies before `start`)
+  start: number;
+  end: number;
+  // Pages whose `### Page N` headings fall in or before the chunk
+  pages: number[];
+  tokens: number;
+  // Characters cut from lines too long for a chunk
+  cut: number;
+  text: string;
+}
+
+export interface ChunkReport {
+  index: number;
+  start: number;
+  end: number;
+  pages: number[];
+  tokens: number;
+  cut: number;
+  // ok: model answered, heuristic: model failed and the text matcher was used, dropped: over EXTRACT_MAX_CHUNKS
+  status: 'ok' | 'heuristic' | 'dropped';
+}
+
+export interface FieldConflict {
+  field: string;
+  // Label of the item the field belongs to (multi-item extraction)
+  item?: string;
+  chosen: string;
+  candidates: { value: string; chunks: number[] }[];
+}
+
+// One equipment item as answered for one chunk; single-item extraction has one unlabelled item per chunk
+export interface ChunkItem {
+  label: string;
+  values: Record<string, string>;
+}
+
+export interface MergedItem {
+  label: string;
+  values: Record<string, string>;
+  // Chunks the item was found in
+  chunks: number[];
+}
+
+export const CHUNK_TOKENS = Math.max(500, Number(process.env.EXTRACT_CHUNK_TOKENS) || 5000);
+export const MAX_CHUNKS = Math.max(1, Number(process.env.EXTRACT_MAX_CHUNKS) || 8);
+
+// Rough token count: ~4 ASCII characters per token, one token per other character (Hangul, CJK, symbols)
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+// `end` is the line's end offset in the markdown, also when `text` was cut
+interface Line { text: string; start: number; end: number }
+interface Block { lines: Line[]; page?: number }
+interface Piece { start: number; end: number; text: string; cut: number }
+
+const HEADING = /^#{1,6}\s/;
+const PAGE_HEADING = /^#{1,6}\s+(?:Pages?|Image)\s+(\d+)/i;
+const SEPARATOR_ROW = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+// Blocks separated by blank lines; a heading starts a block and stays with the content below it
+function blocks(markdown: string): Block[] {
+  const out: Block[] = [];
+  let current: Block | null = null;
+  let pos = 0;
+  for (const text of markdown.split('\n')) {
+    const trimmed = text.trim();
+    const headingOnly = current?.lines.length === 1 && HEADING.test(current.lines[0].text.trim());
+    if ((!trimmed && !headingOnly) || HEADING.test(trimmed)) {
+      if (current) out.push(current);
+      current = null;
+    }
+    if (trimmed) {
+      if (!current) {
+        const page = trimmed.match(PAGE_HEADING);
+        current = { lines: [], ...(page ? { page: Number(page[1]) } : {}) };
+      }
+      current.lines.push({ text, start: pos, end: pos + text.length });
+    }
+    pos += text.length + 1;
+  }
+  if (current) out.push(current);
+  return out;
+}
+
+function toPiece(lines: Line[], prefix: string[] = []): Piece {
+  return {
+    start: lines[0].start,
+    end: lines[lines.length - 1].end,
+    text: [...prefix, ...lines.map(l => l.text)].join('\n'),
+    cut: lines.reduce((n, l) => n + l.end - l.start - l.text.length, 0),
+  };
+}
+
+// Split an oversized block into row groups. Table header rows are repeated in every
+// group and a leading heading stays with the first one; lines longer than the whole
+// budget are cut (reported as `cut`).
+function splitBlock(block: Block, budget: number): Piece[] {
+  const lines = block.lines.map(l => (estimateTokens(l.text) > budget ? { ...l, text: l.text.slice(0, budget) } : l));
+  const lead = HEADING.test(lines[0].text.trim()) ? 1 : 0;
+  const isTable = lines.length > lead + 2 && lines[lead].text.trim().startsWith('|') && SEPARATOR_ROW.test(lines[lead + 1].text.trim());
+  const top = lines.slice(0, lead + (isTable ? 2 : 0));
+  const header = isTable ? top.slice(lead).map(l => l.text) : [];
+  const groups: Line[][] = [];
+  let group: Line[] = [];
+  const size = (g: Line[]) => estimateTokens([...(groups.length === 0 ? top.map(l => l.text) : header), ...g.map(l => l.text)].join('\n'));
+  for (const line of lines.slice(top.length)) {
+    if (group.length > 0 && size([...group, line]) > budget) {
+      groups.push(group);
+      group = [];
+    }
+    group.push(line);
+  }
+  if (group.length > 0) groups.push(group);
+  if (groups.length === 0) return [toPiece(lines)];
+  return groups.map((g, i) => (i === 0 ? toPiece([...top, ...g]) : toPiece(g, header)));
+}
+
+export function splitMarkdownChunks(markdown: string, budget = CHUNK_TOKENS): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = [];
+  let current: { start: number; end: number; parts: string[]; pages: Set<number>; cut: number } | null = null;
+  let lastPage: number | undefined;
+  const flush = () => {
+    if (!current) return;
+    const text = current.parts.join('\n\n');
+    chunks.push({
+      index: chunks.length,
+      start: current.start,
+      end: current.end,
+      pages: [...current.pages],
+      tokens: estimateTokens(text),
+      cut: current.cut,
+      text,
+    });
+    current = null;
+  };
+  for (const block of blocks(markdown)) {
+    if (block.page !== undefined) lastPage = block.page;
+    const whole = toPiece(block.lines);
+    const pieces = estimateTokens(whole.text) > budget ? splitBlock(block, budget) : [whole];
+    pieces.forEach((piece, i) => {
+      // A page heading starts a new chunk once the current one is half full, so pages stay together
+      const startsPage = block.page !== undefined && i === 0;
+      if (current && (
+        estimateTokens([...current.parts, piece.text].join('\n\n')) > budget
+        || (startsPage && estimateTokens(current.parts.join('\n\n')) > budget / 2)
+      )) flush();
+      if (!current) current = { start: piece.start, end: piece.end, parts: [], pages: new Set(), cut: 0 };
+      current.parts.push(piece.text);
+      current.cut += piece.cut;
+      current.end = Math.max(current.end, piece.end);
+      if (lastPage !== undefined) current.pages.add(lastPage);
+    });
+  }
+  flush();
+  return chunks;
+}
+
+// Report of every chunk: `statuses` holds those of the extracted chunks, the rest
+// were dropped. Dropped characters count the dropped chunks and the cut lines.
+export function reportChunks(
+  all: MarkdownChunk[],
+  statuses: ChunkReport['status'][],
+): { chunks: ChunkReport[]; dropped: { chunks: number; characters: number } } {
+  const chunks: ChunkReport[] = all.map(({ text, ...chunk }) => ({ ...chunk, status: statuses[chunk.index] ?? 'dropped' }));
+  const dropped = all.slice(statuses.length);
+  return {
+    chunks,
+    dropped: {
+      chunks: dropped.length,
+      characters: dropped.reduce((n, c) => n + c.end - c.start, 0) + all.slice(0, statuses.length).reduce((n, c) => n + c.cut, 0),
+    },
+  };
+}
+
+// Merge per-chunk values of one field. Rule: the value found in the most chunks
+// wins (values are compared after unit normalization); ties go to a value that
+// passes the field's schema, then to the earliest chunk.
+export function mergeFieldCandidates(
+  field: string,
+  candidates: { value: string; chunk: number }[],
+  schema?: FieldSchema,
+): { value: string; conflict: FieldConflict | null } {
+  const groups = new Map<string, { value: string; chunks: number[] }>();
+  for (const c of candidates) {
+    const value = (c.value || '').trim();
+    if (!value) continue;
+    const key = normalizeValue(field, value).text.toLowerCase().replace(/\s+/g, ' ');
+    const group = groups.get(key);
+    if (group) group.chunks.push(c.chunk);
+    else groups.set(key, { value, chunks: [c.chunk] });
+  }
+  const spec = specFor(field, schema);
+  const ranked = [...groups.values()].sort((a, b) =>
+    b.chunks.length - a.chunks.length
+    || Number(!validateValue(spec, b.value)) - Number(!validateValue(spec, a.value))
+    || Math.min(...a.chunks) - Math.min(...b.chunks));
+  if (ranked.length === 0) return { value: '', conflict: null };
+  return {
+    value: ranked[0].value,
+    conflict: ranked.length > 1 ? { field, chosen: ranked[0].value, candidates: ranked } : null,
+  };
+}
+
+const labelKey = (label: string) => label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Group the items of all chunks by label (unlabelled items by their position in the
+// chunk's answer) and merge each item's fields with mergeFieldCandidates.
+// Items keep the order in which they first appear.
+export function mergeChunkItems(
+  perChunk: { chunk: number; items: ChunkItem[] }[],
+  schema?: FieldSchema,
+): { items: MergedItem[]; conflicts: FieldConflict[] } {
+  const groups = new Map<string, { label: string; found: { chunk: number; values: Record<string, string> }[] }>();
+  for (const { chunk, items } of perChunk) {
+    items.forEach((item, i) => {
+      const key = labelKey(item.label) || `#${i}`;
+      const group = groups.get(key) ?? { label: item.label.trim(), found: [] };
+      group.found.push({ chunk, values: item.values });
+      groups.set(key, group);
+    });
+  }
+  const items: MergedItem[] = [];
+  const conflicts: FieldConflict[] = [];
+  for (const { label, found } of groups.values()) {
+    const values: Record<string, string> = {};
+    for (const field of new Set(found.flatMap(f => Object.keys(f.values)))) {
+      const merged = mergeFieldCandidates(field, found.map(f => ({ value: f.values[field] ?? '', chunk: f.chunk })), schema);
+      values[field] = merged.value;
+      if (merged.conflict) conflicts.push(label ? { ...merged.conflict, item: label } : merged.conflict);
+    }
+    items.push({ label, values, chunks: [...new Set(found.map(f => f.chunk))] });
+  }
+  return { items, conflicts };
+}
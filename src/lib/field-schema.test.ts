@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseFieldSchema, specFor, validateFields, validateValue, type FieldSpec } from '@/lib/field-schema';
+
+const code = (spec: FieldSpec, value: string) => validateValue(spec, value)?.code ?? null;
+
+const flow: FieldSpec = { name: 'rated flow', type: 'number', unit: 'm³/h', min: 0, max: 500, required: true };
+
+describe('validateValue', () => {
+  it('required: empty values of required fields only', () => {
+    expect(code(flow, '  ')).toBe('required');
+    expect(code({ name: 'note', type: 'text' }, '')).toBeNull();
+  });
+
+  it('not-a-number: text, placeholders and ranges in single-value fields', () => {
+    expect(code(flow, 'see datasheet')).toBe('not-a-number');
+    expect(code(flow, 'N/A')).toBe('not-a-number');
+    expect(code(flow, '100-120 m3/h')).toBe('not-a-number');
+    expect(code(flow, '250 m3/h')).toBeNull();
+  });
+
+  it('not-a-range: a single value in a range field', () => {
+    const range: FieldSpec = { name: 'operating flow', type: 'range', unit: 'm³/h' };
+    expect(code(range, '250 m3/h')).toBe('not-a-range');
+    expect(code(range, '100-120 m3/h')).toBeNull();
+  });
+
+  it('unit-mismatch: a unit that does not convert to the field unit', () => {
+    expect(code(flow, '250 kW')).toBe('unit-mismatch');
+  });
+
+  it('out-of-range: bounds checked after unit conversion', () => {
+    expect(code(flow, '600 m3/h')).toBe('out-of-range');
+    expect(code(flow, '200 l/s')).toBe('out-of-range');
+    expect(code(flow, '100 l/s')).toBeNull();
+  });
+
+  it('not-an-option: enum values compared case-insensitively', () => {
+    const seal: FieldSpec = { name: 'seal type', type: 'enum', options: ['Single', 'Double'] };
+    expect(code(seal, 'Triple')).toBe('not-an-option');
+    expect(code(seal, 'double')).toBeNull();
+  });
+
+  it('not-a-material: bare numbers and references', () => {
+    const casing = specFor('casing material');
+    expect(code(casing, '316')).toBe('not-a-material');
+    expect(code(casing, 'refer to spec')).toBe('not-a-material');
+    expect(code(casing, 'ASTM A216 WCB')).toBeNull();
+  });
+});
+
+describe('validateFields', () => {
+  it('returns only failing fields, using the default schema for unknown names', () => {
+    const errors = validateFields({ 'rated flow': 'abc', TDH: '45 m' }, ['rated flow', 'TDH', 'manufacturer']);
+    expect(Object.fromEntries(Object.entries(errors).map(([k, v]) => [k, v.code]))).toEqual({
+      'rated flow': 'not-a-number',
+      manufacturer: 'required',
+    });
+  });
+});
+
+describe('parseFieldSchema', () => {
+  it('accepts JSON text and plain field names', () => {
+    const parsed = parseFieldSchema('{"version":1,"fields":["tag",{"name":"speed","type":"number","unit":"rpm","max":3600}]}');
+    expect(parsed).toEqual({
+      schema: { version: 1, fields: [{ name: 'tag', type: 'text' }, { name: 'speed', type: 'number', unit: 'rpm', max: 3600 }] },
+    });
+  });
+
+  it('reports the first problem', () => {
+    expect(parseFieldSchema('nope')).toEqual({ error: 'Schema must be an object with a "fields" array' });
+    expect(parseFieldSchema({ fields: ['a', 'a'] })).toEqual({ error: 'fields[1]: duplicate field "a"' });
+    expect(parseFieldSchema({ fields: [{ name: 'x', type: 'date' }] })).toEqual({ error: 'fields[0] (x): unknown type "date"' });
+    expect(parseFieldSchema({ fields: [{ name: 'x', type: 'enum' }] })).toEqual({ error: 'fields[0] (x): enum fields need "options"' });
+    expect(parseFieldSchema({ fields: [{ name: 'x', unit: 'furlong' }] })).toEqual({ error: 'fields[0] (x): unknown unit "furlong"' });
+  });
+});
@@ -0,0 +1,148 @@
+import { convertQuantity, lookupUnit, parseQuantity, targetUnit } from '@/lib/units';
+
+// Typed evaluation-sheet fields. Each field has a type, an optional allowed
+// range (in `unit`) and a required flag; /api/extract validates its results
+// against the schema and the grid flags the same errors.
+// Schemas are exchanged as JSON: { "version": 1, "fields": [FieldSpec, ...] }.
+// Client-safe.
+
+export type FieldType = 'number' | 'range' | 'enum' | 'material' | 'text';
+
+export interface FieldSpec {
+  name: string;
+  type: FieldType;
+  // number/range: unit that `min`/`max` are given in (default: the field's normalized unit)
+  unit?: string;
+  min?: number;
+  max?: number;
+  // enum: allowed values (compared case-insensitively)
+  options?: string[];
+  required?: boolean;
+}
+
+export interface FieldSchema {
+  version: 1;
+  fields: FieldSpec[];
+}
+
+export type FieldErrorCode = 'required' | 'not-a-number' | 'not-a-range' | 'unit-mismatch' | 'out-of-range' | 'not-an-option' | 'not-a-material';
+
+export interface FieldError {
+  code: FieldErrorCode;
+  message: string;
+}
+
+const FIELD_TYPES: FieldType[] = ['number', 'range', 'enum', 'material', 'text'];
+
+export const DEFAULT_SCHEMA: FieldSchema = {
+  version: 1,
+  fields: [
+    { name: 'manufacturer', type: 'text', required: true },
+    { name: 'pump model name', type: 'text', required: true },
+    { name: 'rated flow', type: 'number', unit: 'm³/h', min: 0, required: true },
+    { name: 'max flow', type: 'number', unit: 'm³/h', min: 0 },
+    { name: 'min flow', type: 'number', unit: 'm³/h', min: 0 },
+    { name: 'normal flow', type: 'number', unit: 'm³/h', min: 0 },
+    { name: 'TDH', type: 'number', unit: 'm', min: 0, required: true },
+    { name: 'casing material', type: 'material' },
+    { name: 'shaft material', type: 'material' },
+    { name: 'impeller material', type: 'material' },
+    { name: 'shaft power', type: 'number', unit: 'kW', min: 0 },
+    { name: 'pump efficiency', type: 'number', unit: '%', min: 0, max: 100 },
+    { name: 'shutoff TDH', type: 'number', unit: 'm', min: 0 },
+  ],
+};
+
+// Fields without a spec are free text
+export function specFor(name: string, schema: FieldSchema = DEFAULT_SCHEMA): FieldSpec {
+  return schema.fields.find(f => f.name === name)
+    ?? DEFAULT_SCHEMA.fields.find(f => f.name === name)
+    ?? { name, type: 'text' };
+}
+
+// Validate an imported/posted schema; returns a readable error for the first problem
+export function parseFieldSchema(value: unknown): { schema: FieldSchema } | { error: string } {
+  const raw: any = typeof value === 'string' ? (() => { try { return JSON.parse(value); } catch { return null; } })() : value;
+  const list = Array.isArray(raw) ? raw : raw?.fields;
+  if (!Array.isArray(list)) return { error: 'Schema must be an object with a "fields" array' };
+  const fields: FieldSpec[] = [];
+  for (const [i, f] of list.entries()) {
+    const name = typeof f === 'string' ? f.trim() : typeof f?.name === 'string' ? f.name.trim() : '';
+    if (!name) return { error: `fields[${i}]: "name" is required` };
+    if (fields.some(x => x.name === name)) return { error: `fields[${i}]: duplicate field "${name}"` };
+    const type = typeof f === 'string' ? 'text' : f.type ?? 'text';
+    if (!FIELD_TYPES.includes(type)) return { error: `fields[${i}] (${name}): unknown type "${type}"` };
+    const spec: FieldSpec = { name, type };
+    if (typeof f === 'object') {
+      if (f.unit !== undefined) {
+        if (typeof f.unit !== 'string' || !lookupUnit(f.unit)) return { error: `fields[${i}] (${name}): unknown unit "${f.unit}"` };
+        spec.unit = f.unit;
+      }
+      for (const bound of ['min', 'max'] as const) {
+        if (f[bound] === undefined || f[bound] === null) continue;
+        if (typeof f[bound] !== 'number' || !Number.isFinite(f[bound])) return { error: `fields[${i}] (${name}): "${bound}" must be a number` };
+        spec[bound] = f[bound];
+      }
+      if (type === 'enum') {
+        if (!Array.isArray(f.options) || f.options.length === 0) return { error: `fields[${i}] (${name}): enum fields need "options"` };
+        spec.options = f.options.map(String);
+      }
+      if (f.required) spec.required = true;
+    }
+    fields.push(spec);
+  }
+  return { schema: { version: 1, fields } };
+}
+
+// Materials are named ("SS316", "ASTM A216 WCB", "Cast iron"), never a bare number or a reference
+const NOT_A_VALUE = /^(?:-+|n\/?a|tbd|tba|none|see\b.*|refer\b.*|as per\b.*)$/i;
+
+export function validateValue(spec: FieldSpec, value: string): FieldError | null {
+  const text = (value || '').trim();
+  if (!text) return spec.required ? { code: 'required', message: `${spec.name} is required` } : null;
+  if (spec.type === 'text') return null;
+  if (spec.type === 'enum') {
+    const options = spec.options ?? [];
+    return options.some(o => o.toLowerCase() === text.toLowerCase())
+      ? null
+      : { code: 'not-an-option', message: `${spec.name} must be one of: ${options.join(', ')}` };
+  }
+  if (spec.type === 'material') {
+    return /\p{L}/u.test(text) && !NOT_A_VALUE.test(text)
+      ? null
+      : { code: 'not-a-material', message: `${spec.name} "${text}" is not a material name` };
+  }
+  const quantity = parseQuantity(text);
+  if (!quantity || NOT_A_VALUE.test(text)) return { code: 'not-a-number', message: `${spec.name} "${text}" is not a number` };
+  if (spec.type === 'number' && quantity.min !== undefined) {
+    return { code: 'not-a-number', message: `${spec.name} "${text}" is a range, expected a single value` };
+  }
+  if (spec.type === 'range' && quantity.min === undefined) {
+    return { code: 'not-a-range', message: `${spec.name} "${text}" is not a range (e.g. "100-120 m³/h")` };
+  }
+  // Values without a unit are taken to be in the field's unit
+  const unit = spec.unit ?? targetUnit(spec.name, quantity.unit);
+  let converted = quantity;
+  if (unit && quantity.unit) {
+    const c = convertQuantity(quantity, unit);
+    if (!c) return { code: 'unit-mismatch', message: `${spec.name} "${text}" cannot be converted to ${unit}` };
+    converted = c;
+  }
+  const low = converted.min ?? converted.value;
+  const high = converted.max ?? converted.value;
+  if ((spec.min !== undefined && low < spec.min) || (spec.max !== undefined && high > spec.max)) {
+    const bounds = [spec.min !== undefined ? `≥ ${spec.min}` : '', spec.max !== undefined ? `≤ ${spec.max}` : ''].filter(Boolean).join(' and ');
+    return { code: 'out-of-range', message: `${spec.name} "${text}" is out of range (${bounds}${unit ? ` ${unit}` : ''})` };
+  }
+  return null;
+}
+
+// Errors of the invalid or missing-required fields, keyed by field name
+export function validateFields(values: Record<string, string>, names: string[], schema?: FieldSchema): Record<string, FieldError> {
+  const errors: Record<string, FieldError> = {};
+  for (const name of names) {
+    const error = validateValue(specFor(name, schema), values[name] ?? '');
+    if (error) errors[name] = error;
+  }
+  return errors;
+}
@@ -0,0 +1,8 @@
+import generic from '../../prompts/generic.json';
+
+// prompts/generic.json bundled into the build: the prompts used when no template
+// is given and the fallback when PROMPTS_DIR has no generic.json. The file is
+// the only copy of these prompts.
+export const GENERIC_TITLE = generic.title;
+export const GENERIC_VISION_PROMPT = generic.vision.join('\n');
+export const GENERIC_EXTRACT_PROMPT = generic.extract.join('\n');
@@ -0,0 +1,140 @@
+import { checkImagePixels, limitError } from '@/lib/limits';
+
+// Image uploads the model cannot take as-is. Multi-page TIFF scans are split
+// into one PNG per page; HEIC/HEIF phone photos, WebP, BMP and TIFF pages are
+// re-encoded as PNG. PNG, JPEG and GIF are passed through unchanged.
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'bmp' | 'tiff' | 'heic';
+
+const PASSTHROUGH: ImageFormat[] = ['png', 'jpeg', 'gif'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+// Container from the magic bytes; browsers often send HEIC/TIFF with an empty or generic MIME type
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 4) === 'PNG') return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (['II*\0', 'MM\0*'].includes(ascii(bytes, 0, 4))) return 'tiff';
+  if (ascii(bytes, 4, 8) === 'ftyp' && HEIC_BRANDS.includes(ascii(bytes, 8, 12))) return 'heic';
+  return null;
+}
+
+const u16be = (b: Uint8Array, i: number) => (b[i] << 8) | b[i + 1];
+const u32be = (b: Uint8Array, i: number) => ((b[i] << 24) >>> 0) + (b[i + 1] << 16) + (b[i + 2] << 8) + b[i + 3];
+const u16le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8);
+
+// Pixel size from the file header, without decoding (null when unknown)
+export async function imageDimensions(bytes: Uint8Array, format: ImageFormat): Promise<{ width: number; height: number } | null> {
+  if (format === 'png') return { width: u32be(bytes, 16), height: u32be(bytes, 20) };
+  if (format === 'gif') return { width: u16le(bytes, 6), height: u16le(bytes, 8) };
+  if (format === 'bmp') {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+  }
+  if (format === 'jpeg') {
+    // Walk the segments up to the first start-of-frame marker
+    for (let i = 2; i + 9 < bytes.length;) {
+      if (bytes[i] !== 0xff) return null;
+      const marker = bytes[i + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: u16be(bytes, i + 7), height: u16be(bytes, i + 5) };
+      }
+      i += 2 + u16be(bytes, i + 2);
+    }
+    return null;
+  }
+  if (format === 'heic') return heicDimensions(bytes);
+  try {
+    const { default: sharp } = await import('sharp');
+    const { width, height } = await sharp(bytes).metadata();
+    return width && height ? { width, height } : null;
+  } catch {
+    return null;
+  }
+}
+
+// HEIF stores each item's size in an `ispe` property box (size 20: header, version/flags,
+// width, height). Tiled photos list the tiles and the full grid, so the largest one is taken.
+function heicDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  let best: { width: number; height: number } | null = null;
+  for (let i = 0; i + 20 <= bytes.length; i++) {
+    if (bytes[i + 4] !== 0x69 || ascii(bytes, i + 4, i + 8) !== 'ispe' || u32be(bytes, i) !== 20) continue;
+    const width = u32be(bytes, i + 12);
+    const height = u32be(bytes, i + 16);
+    if (!best || width * height > best.width * best.height) best = { width, height };
+  }
+  return best;
+}
+
+export interface DecodedImage {
+  format: ImageFormat | null;
+  pageCount: number;
+  // 1-based page as a data URL the model accepts
+  page(n: number): Promise<string>;
+}
+
+async function pngFromPixels(width: number, height: number, data: Uint8ClampedArray): Promise<string> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  const imageData = ctx.createImageData(width, height);
+  imageData.data.set(data);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+export async function openImage(dataUrl: string): Promise<DecodedImage> {
+  const bytes = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+  const format = detectImageFormat(bytes);
+  const size = format ? await imageDimensions(bytes, format) : null;
+  if (size) checkImagePixels(size.width, size.height);
+  else if (format && !PASSTHROUGH.includes(format)) {
+    // Decoding an image of unknown size could exceed MAX_PAGE_PIXELS unchecked
+    throw limitError('UNSUPPORTED_FILE_TYPE', `Could not read the size of the ${format.toUpperCase()} image.`, 415);
+  }
+  if (!format || PASSTHROUGH.includes(format)) {
+    return { format, pageCount: 1, page: async () => dataUrl };
+  }
+
+  if (format === 'tiff') {
+    const { default: sharp } = await import('sharp');
+    const { pages = 1 } = await sharp(bytes).metadata();
+    return {
+      format,
+      pageCount: pages,
+      page: async (n) => {
+        const png = await sharp(bytes, { page: n - 1 }).png().toBuffer();
+        return `data:image/png;base64,${png.toString('base64')}`;
+      },
+    };
+  }
+
+  if (format === 'heic') {
+    const { default: decode } = await import('heic-decode');
+    return {
+      format,
+      pageCount: 1,
+      page: async () => {
+        const { width, height, data } = await decode({ buffer: bytes });
+        return pngFromPixels(width, height, data);
+      },
+    };
+  }
+
+  // WebP and BMP are decoded by the canvas backend
+  return {
+    format,
+    pageCount: 1,
+    page: async () => {
+      const { createCanvas, loadImage } = await import('@napi-rs/canvas');
+      const image = await loadImage(bytes);
+      const canvas = createCanvas(image.width, image.height);
+      canvas.getContext('2d').drawImage(image, 0, 0);
+      return canvas.toDataURL('image/png');
+    },
+  };
+}
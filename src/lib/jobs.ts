@@ -0,0 +1,306 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { runConversion, type ConvertOptions, type FailedPage } from '@/lib/convert';
+import type { ConvertInput } from '@/lib/convert-request';
+import { addUsage, emptyUsage, type LLMUsage } from '@/lib/llm';
+import { assemblePageMarkdown } from '@/lib/page-markdown';
+import { isPdfPasswordError, type PdfPasswordCode } from '@/lib/pdf';
+import { isLimitError, type LimitCode } from '@/lib/limits';
+import type { SkippedPage } from '@/lib/page-classify';
+import type { NumericWarning } from '@/lib/verify-numbers';
+import { templateRef, type TemplateRef } from '@/lib/prompt-templates';
+import type { StructuredTable } from '@/lib/table-structure';
+
+// Background conversion jobs: an in-process queue with a concurrency limit
+// (JOBS_CONCURRENCY, default 1). Every job is persisted as JSON under JOBS_DIR
+// (default .data/jobs) so finished results survive a restart; jobs that were
+// still queued or running when the process stopped are marked as failed.
+// Jobs for password-protected PDFs are kept in memory only, so their decrypted
+// results never reach the disk (and are gone after a restart).
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface JobPage {
+  page: number;
+  status: 'pending' | 'rendered' | 'done' | 'failed' | 'skipped' | 'over-budget';
+  cached?: boolean;
+  error?: string;
+  // Why the pre-classifier skipped the page
+  reason?: string;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  fileName?: string;
+  params: Record<string, string>;
+  // Prompt template and version the pages were converted with
+  template?: TemplateRef;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  pages: JobPage[];
+  results: { page: number; content: string; title?: string; tables: StructuredTable[]; warnings?: NumericWarning[] }[];
+  markdown: string;
+  usage: LLMUsage;
+  failedPages: FailedPage[];
+  skippedPages: SkippedPage[];
+  // Pages left out because the job's maxCost was reached
+  overBudgetPages: number[];
+  error?: string;
+  // Encrypted PDF whose password was missing or wrong, or a request limit that was hit
+  code?: PdfPasswordCode | LimitCode;
+  // Never written to JOBS_DIR (password-protected input)
+  memoryOnly?: boolean;
+}
+
+interface QueuedJob {
+  job: Job;
+  input: ConvertInput;
+  options: ConvertOptions;
+  controller: AbortController;
+}
+
+const JOBS_DIR = process.env.JOBS_DIR || path.join(process.cwd(), '.data', 'jobs');
+const JOBS_CONCURRENCY = Number(process.env.JOBS_CONCURRENCY) || 1;
+
+interface JobStore {
+  jobs: Map<string, Job>;
+  queue: QueuedJob[];
+  running: Map<string, QueuedJob>;
+  writes: Map<string, Promise<void>>;
+  loaded: Promise<void> | null;
+}
+
+// Kept on globalThis so dev-mode module reloads share one queue
+const store: JobStore = ((globalThis as any).__convertJobStore ??= {
+  jobs: new Map(),
+  queue: [],
+  running: new Map(),
+  writes: new Map(),
+  loaded: null,
+});
+
+function jobFile(id: string) {
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function persist(job: Job) {
+  job.updatedAt = new Date().toISOString();
+  if (job.memoryOnly) return Promise.resolve();
+  const snapshot = JSON.stringify(job);
+  // Serialize writes per job so an older snapshot never overwrites a newer one
+  const prev = store.writes.get(job.id) ?? Promise.resolve();
+  const next = prev.then(async () => {
+    await fs.mkdir(JOBS_DIR, { recursive: true });
+    const tmp = `${jobFile(job.id)}.tmp`;
+    await fs.writeFile(tmp, snapshot);
+    await fs.rename(tmp, jobFile(job.id));
+  }).catch((e) => console.warn(`[jobs] failed to persist ${job.id}:`, e?.message || e));
+  store.writes.set(job.id, next);
+  return next;
+}
+
+async function loadJobs() {
+  let names: string[] = [];
+  try {
+    names = await fs.readdir(JOBS_DIR);
+  } catch {
+    return;
+  }
+  for (const name of names) {
+    if (!name.endsWith('.json')) continue;
+    try {
+      const job: Job = JSON.parse(await fs.readFile(path.join(JOBS_DIR, name), 'utf8'));
+      if (store.jobs.has(job.id)) continue;
+      if (job.status === 'queued' || job.status === 'running') {
+        job.status = 'failed';
+        job.error = 'Interrupted by server restart';
+        job.finishedAt = new Date().toISOString();
+        await persist(job);
+      }
+      store.jobs.set(job.id, job);
+    } catch (e: any) {
+      console.warn(`[jobs] skipping unreadable job file ${name}:`, e?.message || e);
+    }
+  }
+}
+
+function ensureLoaded() {
+  store.loaded ??= loadJobs();
+  return store.loaded;
+}
+
+function pump() {
+  while (store.running.size < JOBS_CONCURRENCY && store.queue.length > 0) {
+    const entry = store.queue.shift()!;
+    store.running.set(entry.job.id, entry);
+    runJob(entry).finally(() => {
+      store.running.delete(entry.job.id);
+      pump();
+    });
+  }
+}
+
+async function runJob({ job, input, options, controller }: QueuedJob) {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  await persist(job);
+  const setPage = (page: number, patch: Partial<JobPage>) => {
+    const entry = job.pages.find(p => p.page === page);
+    if (entry) Object.assign(entry, patch);
+  };
+
+  try {
+    const result = await runConversion(input, { ...options, signal: controller.signal }, (event) => {
+      if (event.type === 'start') {
+        job.pages = event.pages.map(page => ({ page, status: 'pending' }));
+      } else if (event.type === 'page-rendered') {
+        setPage(event.page, { status: 'rendered' });
+      } else if (event.type === 'page') {
+        setPage(event.page, { status: 'done', cached: event.cached });
+        job.results.push({ page: event.page, content: event.content, title: event.title, tables: event.tables, warnings: event.warnings });
+        job.markdown = assemblePageMarkdown(job.results);
+        addUsage(job.usage, event.usage);
+      } else if (event.type === 'page-error') {
+        setPage(event.page, { status: 'failed', error: event.error });
+        job.failedPages.push({ page: event.page, error: event.error, status: event.status, attempts: event.attempts });
+      } else if (event.type === 'page-skipped') {
+        setPage(event.page, { status: 'skipped', reason: event.reason });
+        job.skippedPages.push({ page: event.page, reason: event.reason });
+      } else if (event.type === 'page-over-budget') {
+        setPage(event.page, { status: 'over-budget' });
+        job.overBudgetPages.push(event.page);
+      } else {
+        return;
+      }
+      persist(job);
+    });
+    job.markdown = result.markdown;
+    job.usage = result.usage;
+    job.failedPages = result.failedPages;
+    job.skippedPages = result.skippedPages;
+    job.overBudgetPages = result.overBudgetPages;
+    if (controller.signal.aborted) {
+      job.status = 'cancelled';
+    } else if (result.pages.length === 0 && result.failedPages.length > 0) {
+      job.status = 'failed';
+      job.error = 'All selected pages failed to convert.';
+    } else {
+      job.status = 'done';
+    }
+  } catch (err: any) {
+    if (err?.name === 'AbortError' || controller.signal.aborted) {
+      job.status = 'cancelled';
+    } else if (isPdfPasswordError(err) || isLimitError(err)) {
+      job.status = 'failed';
+      job.error = err.message;
+      job.code = err.code;
+    } else {
+      console.error(`[jobs] job ${job.id} failed:`, err);
+      job.status = 'failed';
+      job.error = err?.message || String(err);
+    }
+  }
+  job.finishedAt = new Date().toISOString();
+  await persist(job);
+}
+
+export async function createJob(
+  input: ConvertInput,
+  options: ConvertOptions,
+  params: Record<string, string>,
+): Promise<Job> {
+  await ensureLoaded();
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    status: 'queued',
+    fileName: input.fileName,
+    params,
+    ...(options.template ? { template: templateRef(options.template) } : {}),
+    createdAt: now,
+    updatedAt: now,
+    pages: [],
+    results: [],
+    markdown: '',
+    usage: emptyUsage(),
+    failedPages: [],
+    skippedPages: [],
+    overBudgetPages: [],
+    ...(input.kind === 'pdf' && input.password ? { memoryOnly: true } : {}),
+  };
+  store.jobs.set(job.id, job);
+  await persist(job);
+  store.queue.push({ job, input, options, controller: new AbortController() });
+  pump();
+  return job;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  await ensureLoaded();
+  return store.jobs.get(id) ?? null;
+}
+
+// Cancel a queued or running job. Pages already in flight finish and are kept.
+// A job that already finished is removed from storage instead.
+export async function cancelJob(id: string): Promise<{ job: Job; deleted: boolean } | null> {
+  await ensureLoaded();
+  const job = store.jobs.get(id);
+  if (!job) return null;
+
+  const queuedIdx = store.queue.findIndex(q => q.job.id === id);
+  if (queuedIdx >= 0) {
+    store.queue.splice(queuedIdx, 1);
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+    await persist(job);
+    return { job, deleted: false };
+  }
+  const running = store.running.get(id);
+  if (running && job.status === 'running') {
+    running.controller.abort();
+    job.status = 'cancelled';
+    await persist(job);
+    return { job, deleted: false };
+  }
+
+  store.jobs.delete(id);
+  await (store.writes.get(id) ?? Promise.resolve());
+  store.writes.delete(id);
+  await fs.unlink(jobFile(id)).catch(() => {});
+  return { job, deleted: true };
+}
+
+// Public view returned by GET /api/jobs/:id; per-page tables with output=json
+export function jobView(job: Job) {
+  const done = job.pages.filter(p => p.status === 'done').length;
+  const failed = job.pages.filter(p => p.status === 'failed').length;
+  const skipped = job.pages.filter(p => p.status === 'skipped').length;
+  return {
+    id: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    params: job.params,
+    template: job.template,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    progress: { total: job.pages.length, done, failed, skipped, pages: job.pages },
+    markdown: job.markdown,
+    ...((job.params.output || '').toLowerCase() === 'json'
+      ? { tables: [...job.results].sort((a, b) => a.page - b.page).map(({ page, tables }) => ({ page, tables })) }
+      : {}),
+    usage: job.usage,
+    failedPages: job.failedPages,
+    // Jobs persisted before the pre-classifier existed have no list
+    skippedPages: job.skippedPages ?? [],
+    overBudgetPages: job.overBudgetPages ?? [],
+    warnings: [...job.results].sort((a, b) => a.page - b.page).flatMap(r => r.warnings ?? []),
+    error: job.error,
+    code: job.code,
+  };
+}
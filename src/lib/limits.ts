@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { createLimiter, type Limiter } from '@/lib/concurrency';
+
+// Server-side limits, independent of what the client asks for:
+// MAX_UPLOAD_MB (default 50) request body, single file and unzipped total;
+// MAX_PAGES (default 200) pages converted per document;
+// MAX_REQUEST_PAGES (default 500) pages converted per request, summed over the documents of a batch;
+// MAX_SHEET_ROWS (default 10000) and MAX_SHEET_COLUMNS (default 500) cells read per spreadsheet sheet;
+// MAX_PAGE_PIXELS (default 25M) rendered page size (the render scale is lowered
+// to fit) and decoded image size (larger images are rejected);
+// MAX_INFLIGHT_PAGES (default 8) pages rendered/sent to the model at once across all requests;
+// RATE_LIMIT_PER_MIN (default 30, 0 = off) and RATE_LIMIT_BURST (default 10)
+// token bucket per API key (x-api-key or Bearer token) listed in RATE_LIMIT_API_KEYS
+// (comma-separated), otherwise per client IP. The IP is read from X-Forwarded-For
+// only behind TRUST_PROXY (number of proxies in front of the app); requests with
+// neither cannot be told apart and are not limited.
+
+export type LimitCode =
+  | 'UPLOAD_TOO_LARGE'
+  | 'TOO_MANY_PAGES'
+  | 'IMAGE_TOO_LARGE'
+  | 'SHEET_TOO_LARGE'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'RATE_LIMITED';
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const LIMITS = {
+  maxUploadBytes: envNumber('MAX_UPLOAD_MB', 50) * 1024 * 1024,
+  maxPages: envNumber('MAX_PAGES', 200),
+  maxRequestPages: envNumber('MAX_REQUEST_PAGES', 500),
+  maxPagePixels: envNumber('MAX_PAGE_PIXELS', 25_000_000),
+  maxSheetRows: Math.max(1, envNumber('MAX_SHEET_ROWS', 10_000)),
+  maxSheetColumns: Math.max(1, envNumber('MAX_SHEET_COLUMNS', 500)),
+  maxInflightPages: Math.max(1, envNumber('MAX_INFLIGHT_PAGES', 8)),
+  ratePerMinute: envNumber('RATE_LIMIT_PER_MIN', 30),
+  rateBurst: Math.max(1, envNumber('RATE_LIMIT_BURST', 10)),
+  trustProxy: Math.floor(envNumber('TRUST_PROXY', 0)),
+};
+
+export const formatBytes = (bytes: number) => `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`;
+
+// Thrown from inside a conversion; routes answer with `status` and `code`
+export function isLimitError(err: any): err is Error & { code: LimitCode; status: number } {
+  return err?.name === 'LimitError';
+}
+
+export function limitError(code: LimitCode, message: string, status = 413): Error {
+  const error: any = new Error(message);
+  error.name = 'LimitError';
+  error.code = code;
+  error.status = status;
+  return error;
+}
+
+// Pages counted against MAX_REQUEST_PAGES; shared across the documents of a batch
+export interface PageQuota {
+  used: number;
+}
+
+export const createPageQuota = (): PageQuota => ({ used: 0 });
+
+export function checkPageCount(selected: number, quota?: PageQuota) {
+  if (LIMITS.maxPages > 0 && selected > LIMITS.maxPages) {
+    throw limitError(
+      'TOO_MANY_PAGES',
+      `${selected} pages selected (max ${LIMITS.maxPages}). Narrow the selection with pages, start/end or maxPages.`,
+    );
+  }
+  if (!quota) return;
+  if (LIMITS.maxRequestPages > 0 && quota.used + selected > LIMITS.maxRequestPages) {
+    throw limitError(
+      'TOO_MANY_PAGES',
+      `${selected} more pages would exceed ${LIMITS.maxRequestPages} pages per request (${quota.used} already taken).`,
+    );
+  }
+  quota.used += selected;
+}
+
+export function checkImagePixels(width: number, height: number) {
+  if (LIMITS.maxPagePixels > 0 && width * height > LIMITS.maxPagePixels) {
+    throw limitError('IMAGE_TOO_LARGE', `Image is ${width}×${height} px (max ${LIMITS.maxPagePixels} pixels).`);
+  }
+}
+
+// Largest scale (up to `scale`) whose render of a width×height (at scale 1) page stays within MAX_PAGE_PIXELS
+export function fitRenderScale(width: number, height: number, scale: number) {
+  const pixels = width * height * scale * scale;
+  if (LIMITS.maxPagePixels <= 0 || pixels <= LIMITS.maxPagePixels) return scale;
+  return scale * Math.sqrt(LIMITS.maxPagePixels / pixels);
+}
+
+// Process-wide cap on pages in flight; kept on globalThis so dev reloads share it
+export function pageSlots(): Limiter {
+  return ((globalThis as any).__convertPageSlots ??= createLimiter(LIMITS.maxInflightPages));
+}
+
+interface Bucket { tokens: number; updated: number }
+
+const buckets: Map<string, Bucket> = ((globalThis as any).__rateLimitBuckets ??= new Map());
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex').slice(0, 16);
+
+// Keys are hashed so raw credentials never sit in memory longer than the request
+const allowedKeys = new Set(
+  (process.env.RATE_LIMIT_API_KEYS || '').split(',').map(k => k.trim()).filter(Boolean).map(hashKey),
+);
+
+// Made-up keys and forwarded-for values would get a fresh bucket per request,
+// so only listed keys and headers set by a trusted proxy are used
+function clientKey(request: Request): string | null {
+  const auth = request.headers.get('authorization') || '';
+  const apiKey = request.headers.get('x-api-key') || (auth.toLowerCase().startsWith('bearer ') ? auth.slice(7).trim() : '');
+  if (apiKey && allowedKeys.has(hashKey(apiKey))) return `key:${hashKey(apiKey)}`;
+  if (LIMITS.trustProxy > 0) {
+    // Each proxy appends the address it saw; entries before the trusted hops are client-supplied
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(s => s.trim()).filter(Boolean);
+    const ip = forwarded[forwarded.length - LIMITS.trustProxy] || request.headers.get('x-real-ip');
+    if (ip) return `ip:${ip}`;
+  }
+  // One shared bucket would let a single client throttle everyone else
+  return null;
+}
+
+// Take one token from the client's bucket; null when allowed, otherwise a 429 failure
+export function rateLimit(request: Request): { error: string; status: 429; code: LimitCode; retryAfter: number } | null {
+  if (LIMITS.ratePerMinute <= 0) return null;
+  const key = clientKey(request);
+  if (!key) return null;
+  const now = Date.now();
+  const perMs = LIMITS.ratePerMinute / 60000;
+  const bucket = buckets.get(key) ?? { tokens: LIMITS.rateBurst, updated: now };
+  bucket.tokens = Math.min(LIMITS.rateBurst, bucket.tokens + (now - bucket.updated) * perMs);
+  bucket.updated = now;
+  buckets.set(key, bucket);
+  if (buckets.size > 10000) {
+    // Full buckets carry no state worth keeping
+    for (const [k, b] of buckets) if (b.tokens + (now - b.updated) * perMs >= LIMITS.rateBurst) buckets.delete(k);
+  }
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return null;
+  }
+  const retryAfter = Math.ceil((1 - bucket.tokens) / perMs / 1000);
+  return { error: `Rate limit exceeded. Retry in ${retryAfter}s.`, status: 429, code: 'RATE_LIMITED', retryAfter };
+}
@@ -0,0 +1,49 @@
+import type { LLMProvider, LLMSettings } from '@/lib/llm/types';
+import { createOpenAICompatibleProvider } from '@/lib/llm/openai-compatible';
+import { createMockProvider } from '@/lib/llm/mock';
+
+export type { LLMCallKey, LLMCompletion, LLMProvider, LLMSettings, LLMUsage } from '@/lib/llm/types';
+export { addUsage, emptyUsage } from '@/lib/llm/types';
+export { mockFixtureKey } from '@/lib/llm/mock';
+export { modelPrice, usageCost, type ModelPrice } from '@/lib/llm/pricing';
+
+// Read provider settings from the environment:
+// LLM_PROVIDER (openai | mock), LLM_BASE_URL, LLM_API_KEY (falls back to OPENAI_API_KEY),
+// LLM_MODEL, LLM_TEMPERATURE, LLM_TIMEOUT_MS, LLM_MOCK_FIXTURES, LLM_MOCK_RECORD (1 = record fixtures)
+export function loadLLMSettings(env: NodeJS.ProcessEnv = process.env): LLMSettings {
+  const temperature = env.LLM_TEMPERATURE ? Number(env.LLM_TEMPERATURE) : NaN;
+  const timeoutMs = Number(env.LLM_TIMEOUT_MS);
+  return {
+    provider: (env.LLM_PROVIDER || 'openai').toLowerCase() === 'mock' ? 'mock' : 'openai',
+    baseURL: env.LLM_BASE_URL || env.OPENAI_BASE_URL || undefined,
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY || undefined,
+    model: env.LLM_MODEL || 'gpt-4o-mini',
+    temperature: Number.isFinite(temperature) ? temperature : 0,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 120000,
+    fixturesDir: env.LLM_MOCK_FIXTURES || undefined,
+    record: env.LLM_MOCK_RECORD === '1',
+  };
+}
+
+export function createLLMProvider(settings: LLMSettings = loadLLMSettings()): LLMProvider {
+  return settings.provider === 'mock' ? createMockProvider(settings) : createOpenAICompatibleProvider(settings);
+}
+
+let defaultProvider: LLMProvider | null | undefined;
+
+// Process-wide provider built from the environment; null when it is misconfigured
+export function getDefaultLLMProvider(): LLMProvider | null {
+  if (defaultProvider !== undefined) return defaultProvider;
+  try {
+    defaultProvider = createLLMProvider();
+    console.log(`LLM provider initialized: ${defaultProvider.name} (${defaultProvider.settings.model})`);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to initialize LLM provider:', error.message);
+    } else {
+      console.error('Failed to initialize LLM provider:', String(error));
+    }
+    defaultProvider = null;
+  }
+  return defaultProvider;
+}
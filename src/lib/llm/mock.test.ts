@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { convertImage, type ConvertOptions } from '@/lib/convert';
+import { createMockProvider } from '@/lib/llm/mock';
+import type { LLMSettings } from '@/lib/llm/types';
+
+const FIXTURES = path.join(process.cwd(), 'fixtures', 'llm');
+const page = `data:image/png;base64,${readFileSync(path.join(FIXTURES, 'page.png')).toString('base64')}`;
+
+const settings: LLMSettings = { provider: 'mock', model: 'gpt-4o-mini', temperature: 0, timeoutMs: 1000, fixturesDir: FIXTURES };
+
+function options(overrides: Partial<ConvertOptions> = {}): ConvertOptions {
+  return {
+    llm: createMockProvider(settings),
+    extractMode: 'vision',
+    scale: 1,
+    concurrency: 1,
+    retries: 0,
+    cache: false,
+    regions: false,
+    classify: false,
+    forcePages: '',
+    stitch: false,
+    deskew: false,
+    selection: { start: 1, maxPages: Infinity, pages: '', exclude: '' },
+    origin: 'http://localhost',
+    maxCost: 0,
+    ...overrides,
+  };
+}
+
+describe('mock provider', () => {
+  it('replays the recorded answer for a page through the convert pipeline', async () => {
+    const result = await convertImage(page, options());
+    expect(result.markdown).toContain('| Rated flow | 250 | m3/h |');
+    expect(result.pages[0].tables[0].columns).toBe(3);
+    expect(result.usage.total_tokens).toBe(858);
+  });
+
+  it('keys recordings on the template and page, not the prompt wording', async () => {
+    const template = { name: 'generic', title: 'Default', version: 'edited', vision: 'Read the tables.', extract: '' };
+    const result = await convertImage(page, options({ template }));
+    expect(result.markdown).toContain('| TDH | 45 | m |');
+  });
+
+  it('answers unknown requests with an empty result', async () => {
+    const template = { name: 'pump-datasheet', title: 'Pump datasheet', version: 'x', vision: 'Read the tables.', extract: '' };
+    const result = await convertImage(page, options({ template }));
+    expect(result.pages[0].tables).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LLMCallKey, LLMCompletion, LLMProvider, LLMSettings } from '@/lib/llm/types';
+import { usageCost } from '@/lib/llm/pricing';
+import { createOpenAICompatibleProvider } from '@/lib/llm/openai-compatible';
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+export function mockFixtureKey(kind: 'text' | 'vision', call: LLMCallKey) {
+  return sha256(`${kind}\n${call.template}\n${call.input}`);
+}
+
+// Deterministic provider for tests and air-gapped machines.
+// Responses are replayed from `<fixturesDir>/<key>.json` (key from mockFixtureKey)
+// holding `{ "kind": ..., "template": ..., "content": "...", "usage": { ... } }`.
+// Unknown requests get a fixed empty answer and the missing key is logged.
+// With `record` (LLM_MOCK_RECORD=1) every call goes to the OpenAI-compatible
+// endpoint and its answer is written as a fixture; record with cache=0 so no
+// page is answered from the response cache.
+export function createMockProvider(settings: LLMSettings): LLMProvider {
+  if (settings.record && !settings.fixturesDir) throw new Error('LLM_MOCK_RECORD needs LLM_MOCK_FIXTURES');
+  const upstream = settings.record ? createOpenAICompatibleProvider(settings) : null;
+
+  async function replay(kind: 'text' | 'vision', prompt: string, imageDataUrl: string | undefined, call?: LLMCallKey): Promise<LLMCompletion> {
+    // Calls made without a key are keyed on the full prompt, so any prompt edit changes it
+    const id = call ?? { template: '', input: sha256(`${prompt}\n${imageDataUrl ?? ''}`) };
+    const key = mockFixtureKey(kind, id);
+    if (upstream && settings.fixturesDir) {
+      const response = kind === 'vision'
+        ? await upstream.completeVision(prompt, imageDataUrl ?? '')
+        : await upstream.completeText(prompt);
+      const { cost, ...usage } = response.usage;
+      await fs.mkdir(settings.fixturesDir, { recursive: true });
+      await fs.writeFile(
+        path.join(settings.fixturesDir, `${key}.json`),
+        JSON.stringify({ kind, template: id.template, content: response.content, usage }, null, 2) + '\n',
+      );
+      console.log(`[mock-llm] recorded ${kind} request ${key}`);
+      return response;
+    }
+    if (settings.fixturesDir) {
+      try {
+        const raw = await fs.readFile(path.join(settings.fixturesDir, `${key}.json`), 'utf8');
+        const fixture = JSON.parse(raw);
+        const tokens = {
+          prompt_tokens: Number(fixture?.usage?.prompt_tokens) || 0,
+          completion_tokens: Number(fixture?.usage?.completion_tokens) || 0,
+          total_tokens: Number(fixture?.usage?.total_tokens) || 0,
+        };
+        return {
+          content: String(fixture?.content ?? ''),
+          usage: { ...tokens, cost: usageCost(settings.model, tokens) },
+          model: settings.model,
+        };
+      } catch (e: any) {
+        if (e?.code !== 'ENOENT') throw e;
+      }
+    }
+    console.log(`[mock-llm] no fixture for ${kind} request ${key}`);
+    return {
+      content: kind === 'vision' ? 'No tables detected in the image.' : '{}',
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0 },
+      model: settings.model,
+    };
+  }
+
+  return {
+    name: 'mock',
+    settings,
+    completeText: (prompt, call) => replay('text', prompt, undefined, call),
+    completeVision: (prompt, imageDataUrl, call) => replay('vision', prompt, imageDataUrl, call),
+  };
+}
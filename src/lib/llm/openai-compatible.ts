@@ -0,0 +1,47 @@
+import OpenAI from 'openai';
+import type { LLMCompletion, LLMProvider, LLMSettings } from '@/lib/llm/types';
+import { usageCost } from '@/lib/llm/pricing';
+
+// Works against api.openai.com and any OpenAI-compatible server (vLLM, Ollama, LM Studio)
+export function createOpenAICompatibleProvider(settings: LLMSettings): LLMProvider {
+  if (!settings.apiKey && !settings.baseURL) {
+    throw new Error('OPENAI_API_KEY is not set in environment variables');
+  }
+  const client = new OpenAI({
+    // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+    apiKey: settings.apiKey || 'not-needed',
+    baseURL: settings.baseURL,
+    timeout: settings.timeoutMs,
+    // Retries are handled per page by the convert pipeline (see lib/retry)
+    maxRetries: 0,
+  });
+
+  async function complete(content: OpenAI.Chat.Completions.ChatCompletionUserMessageParam['content']): Promise<LLMCompletion> {
+    const response = await client.chat.completions.create({
+      model: settings.model,
+      messages: [{ role: 'user', content }],
+      temperature: settings.temperature,
+    });
+    const model = response.model || settings.model;
+    const tokens = {
+      prompt_tokens: response.usage?.prompt_tokens || 0,
+      completion_tokens: response.usage?.completion_tokens || 0,
+      total_tokens: response.usage?.total_tokens || 0,
+    };
+    return {
+      content: response.choices[0]?.message?.content || '',
+      usage: { ...tokens, cost: usageCost(model, tokens) },
+      model,
+    };
+  }
+
+  return {
+    name: 'openai',
+    settings,
+    completeText: (prompt) => complete(prompt),
+    completeVision: (prompt, imageDataUrl) => complete([
+      { type: 'text', text: prompt },
+      { type: 'image_url', image_url: { url: imageDataUrl } },
+    ]),
+  };
+}
@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs';
+import type { LLMUsage } from '@/lib/llm/types';
+
+// Model prices in USD per 1M tokens. Image inputs are billed as prompt tokens,
+// so the provider-reported prompt_tokens already include them.
+// Overrides: LLM_PRICING_FILE (JSON `{ "<model>": { "input": 0.15, "output": 0.6 } }`,
+// merged over the defaults) and LLM_PRICE_INPUT / LLM_PRICE_OUTPUT for LLM_MODEL.
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5': { input: 1.25, output: 10 },
+};
+
+function validPrice(value: any): ModelPrice | null {
+  const input = Number(value?.input);
+  const output = Number(value?.output);
+  return Number.isFinite(input) && input >= 0 && Number.isFinite(output) && output >= 0 ? { input, output } : null;
+}
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+function loadPrices(env: NodeJS.ProcessEnv = process.env): Record<string, ModelPrice> {
+  const prices = { ...DEFAULT_PRICES };
+  if (env.LLM_PRICING_FILE) {
+    try {
+      const file = JSON.parse(readFileSync(env.LLM_PRICING_FILE, 'utf8'));
+      for (const [model, value] of Object.entries(file || {})) {
+        const price = validPrice(value);
+        if (price) prices[model] = price;
+        else console.warn(`[pricing] ignoring invalid price for ${model} in ${env.LLM_PRICING_FILE}`);
+      }
+    } catch (e: any) {
+      console.warn(`[pricing] failed to read ${env.LLM_PRICING_FILE}:`, e?.message || e);
+    }
+  }
+  const envPrice = env.LLM_PRICE_INPUT && env.LLM_PRICE_OUTPUT
+    ? validPrice({ input: env.LLM_PRICE_INPUT, output: env.LLM_PRICE_OUTPUT })
+    : null;
+  if (envPrice) prices[env.LLM_MODEL || 'gpt-4o-mini'] = envPrice;
+  return prices;
+}
+
+const unpriced = new Set<string>();
+
+// Exact model name first, then the longest known prefix ("gpt-4o-mini-2024-07-18" → "gpt-4o-mini")
+export function modelPrice(model: string): ModelPrice | null {
+  const prices = (priceTable ??= loadPrices());
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) return prices[prefix];
+  if (!unpriced.has(model)) {
+    unpriced.add(model);
+    console.warn(`[pricing] no price for model ${model}; its usage is counted as free`);
+  }
+  return null;
+}
+
+// USD cost of one completion
+export function usageCost(model: string, usage: Pick<LLMUsage, 'prompt_tokens' | 'completion_tokens'>): number {
+  const price = modelPrice(model);
+  if (!price) return 0;
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
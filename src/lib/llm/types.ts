@@ -0,0 +1,53 @@
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // USD, from the model price table (lib/llm/pricing); 0 for unpriced models and cache hits
+  cost: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage: LLMUsage;
+  model: string;
+}
+
+export interface LLMSettings {
+  provider: 'openai' | 'mock';
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama or a vLLM server
+  baseURL?: string;
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  // Directory with recorded responses for the mock provider
+  fixturesDir?: string;
+  // Mock provider: call the OpenAI-compatible endpoint and write its answers to `fixturesDir`
+  record?: boolean;
+}
+
+// Identity of a call for recorded responses that survives prompt edits:
+// the prompt template's name and a hash of the input (page image, markdown chunk)
+export interface LLMCallKey {
+  template: string;
+  input: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  settings: LLMSettings;
+  completeText(prompt: string, call?: LLMCallKey): Promise<LLMCompletion>;
+  completeVision(prompt: string, imageDataUrl: string, call?: LLMCallKey): Promise<LLMCompletion>;
+}
+
+export function emptyUsage(): LLMUsage {
+  return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0 };
+}
+
+export function addUsage(target: LLMUsage, usage: LLMUsage) {
+  target.prompt_tokens += usage.prompt_tokens;
+  target.completion_tokens += usage.completion_tokens;
+  target.total_tokens += usage.total_tokens;
+  // Usage persisted before costs were tracked has no `cost`
+  target.cost += usage.cost || 0;
+}
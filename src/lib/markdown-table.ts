@@ -0,0 +1,21 @@
+// Helpers for emitting GitHub-Flavored Markdown tables
+
+export function escapeCell(text: string) {
+  return (text || '').replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+}
+
+// First row is used as the header row. Short rows are padded with empty cells.
+export function toMarkdownTable(rows: string[][]): string {
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (cells: string[]) => {
+    const padded = Array.from({ length: width }, (_, i) => escapeCell(cells[i] ?? ''));
+    return `| ${padded.join(' | ')} |`;
+  };
+  const [header, ...body] = rows;
+  return [
+    line(header),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...body.map(line),
+  ].join('\n');
+}
@@ -0,0 +1,148 @@
+import { darkMask, loadPixels } from '@/lib/regions';
+
+// Orientation and skew correction of page images before they go to the model.
+// Quarter turns are detected from projection profiles: text lines make the row
+// profile of an upright page much spikier than its column profile. Ruled tables
+// spike the column profile too, so a page is only turned when that margin is
+// large and a second signal agrees: the lines of a sideways page have a straight
+// starting edge and a ragged end (left-aligned text), which also gives the
+// reading direction. Upside-down pages are not detected. Skew is the small angle
+// whose row profile is sharpest. PDF pages with a text layer are not corrected.
+
+export interface PageCorrection {
+  // Clockwise quarter turn applied to the image: 0, 90 or 270
+  rotation: number;
+  // Further clockwise rotation in degrees that straightened the text lines
+  skew: number;
+  // /Rotate of the PDF page, already applied by pdfjs when the page was rendered
+  pdfRotate?: number;
+}
+
+// Largest skew searched, in degrees
+const MAX_SKEW = Math.min(15, Number(process.env.DESKEW_MAX_ANGLE) || 5);
+// Smaller skews are left alone (resampling would only blur the text)
+const MIN_SKEW = 0.3;
+// Ink is sampled on a grid so the longest side has at most this many points
+const SAMPLE_PX = 1000;
+const MIN_POINTS = 500;
+// Column profile must be this much spikier than the row profile to turn the page
+const QUARTER_TURN_RATIO = 4;
+// Line starts must be this much straighter than line ends (or the reverse)
+const EDGE_ASYMMETRY = 0.25;
+
+interface Points { xs: Float32Array; ys: Float32Array; width: number; height: number }
+
+function inkPoints(mask: Uint8Array, width: number, height: number): Points {
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / SAMPLE_PX));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (mask[y * width + x]) {
+        xs.push(x / step);
+        ys.push(y / step);
+      }
+    }
+  }
+  return { xs: Float32Array.from(xs), ys: Float32Array.from(ys), width: Math.ceil(width / step), height: Math.ceil(height / step) };
+}
+
+// Squared coefficient of variation of a projection profile; high for text lines
+function spikiness(coords: Float32Array, size: number) {
+  const bins = new Float64Array(Math.max(1, Math.ceil(size)));
+  for (const c of coords) bins[Math.min(bins.length - 1, Math.max(0, Math.floor(c)))]++;
+  let sumSq = 0;
+  for (const b of bins) sumSq += b * b;
+  return (bins.length * sumSq) / (coords.length * coords.length) - 1;
+}
+
+// Points after turning the image `rotation` degrees clockwise
+function turn(points: Points, rotation: number): Points {
+  if (rotation === 0) return points;
+  const { xs, ys, width, height } = points;
+  const nx = new Float32Array(xs.length);
+  const ny = new Float32Array(ys.length);
+  for (let i = 0; i < xs.length; i++) {
+    nx[i] = rotation === 90 ? height - ys[i] : ys[i];
+    ny[i] = rotation === 90 ? xs[i] : width - xs[i];
+  }
+  return { xs: nx, ys: ny, width: height, height: width };
+}
+
+function spread(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const deviations = sorted.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+  return deviations[Math.floor(deviations.length / 2)];
+}
+
+// Clockwise quarter turn that makes the text lines horizontal
+function detectRotation(points: Points): number {
+  const { xs, ys, width, height } = points;
+  if (spikiness(xs, width) < QUARTER_TURN_RATIO * spikiness(ys, height)) return 0;
+  // Text runs vertically: compare where the lines (columns) start and end.
+  // Lines starting at the top were turned clockwise; turn them back counter-clockwise.
+  const top = new Map<number, number>();
+  const bottom = new Map<number, number>();
+  for (let i = 0; i < xs.length; i++) {
+    const col = Math.floor(xs[i]);
+    top.set(col, Math.min(top.get(col) ?? Infinity, ys[i]));
+    bottom.set(col, Math.max(bottom.get(col) ?? -Infinity, ys[i]));
+  }
+  const startSpread = spread([...top.values()]);
+  const endSpread = spread([...bottom.values()]);
+  // Straight edges on both sides (a dense ruled table) give no direction: leave the page as it is
+  if (Math.abs(startSpread - endSpread) <= EDGE_ASYMMETRY * Math.max(startSpread, endSpread, 1)) return 0;
+  return startSpread < endSpread ? 270 : 90;
+}
+
+// Clockwise correction in degrees that maximises the sharpness of the row profile
+function detectSkew({ xs, ys, width, height }: Points): number {
+  const score = (deg: number) => {
+    const t = Math.tan((deg * Math.PI) / 180);
+    const offset = Math.max(0, t) * width;
+    const rows = new Float32Array(xs.length);
+    for (let i = 0; i < xs.length; i++) rows[i] = ys[i] - xs[i] * t + offset;
+    return spikiness(rows, height + Math.abs(t) * width);
+  };
+  let best = 0;
+  let bestScore = score(0);
+  const search = (from: number, to: number, step: number) => {
+    for (let deg = from; deg <= to + 1e-9; deg += step) {
+      const s = score(deg);
+      if (s > bestScore) {
+        best = deg;
+        bestScore = s;
+      }
+    }
+  };
+  search(-MAX_SKEW, MAX_SKEW, 0.5);
+  search(best - 0.5, best + 0.5, 0.1);
+  // Lines sloping down by `best` degrees are straightened by turning the image back
+  const skew = Math.round(-best * 10) / 10;
+  return Math.abs(skew) >= MIN_SKEW ? skew : 0;
+}
+
+// Detect and undo quarter turns and skew; the image is returned unchanged when it looks upright
+export async function correctOrientation(imageDataUrl: string): Promise<{ dataUrl: string; correction: PageCorrection | null }> {
+  const { image, width, height, data } = await loadPixels(imageDataUrl);
+  const points = inkPoints(darkMask(data, width, height), width, height);
+  if (points.xs.length < MIN_POINTS) return { dataUrl: imageDataUrl, correction: null };
+  const rotation = detectRotation(points);
+  const skew = detectSkew(turn(points, rotation));
+  if (rotation === 0 && skew === 0) return { dataUrl: imageDataUrl, correction: null };
+
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const sideways = rotation % 180 !== 0;
+  const w = sideways ? height : width;
+  const h = sideways ? width : height;
+  const canvas = createCanvas(w, h);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, w, h);
+  ctx.translate(w / 2, h / 2);
+  ctx.rotate(((rotation + skew) * Math.PI) / 180);
+  ctx.drawImage(image, -width / 2, -height / 2);
+  return { dataUrl: canvas.toDataURL('image/png'), correction: { rotation, skew } };
+}
@@ -0,0 +1,31 @@
+import { imageSignals } from '@/lib/regions';
+
+// Cheap pre-classifier run on a page image before it is sent to the model.
+// Pages that clearly hold no table are skipped instead of paying for a
+// "No tables detected" answer: blank pages, and pages whose text layer shows
+// no table structure while the image has no ruled table region either.
+// Scanned pages without ruling lines cannot be judged cheaply and are kept.
+// Opt-in (classify=1): a text layer without stream/lattice tables can still
+// hold an unruled table the model would read. Skipped pages are reported with
+// their reason in the `page-skipped` event and the result's `skippedPages`.
+
+export interface SkippedPage {
+  page: number;
+  reason: string;
+}
+
+// Share of dark pixels below which a page counts as blank
+const BLANK_INK = Number(process.env.PAGE_BLANK_INK) || 0.002;
+
+// `text` is known for PDF pages: whether a usable text layer exists and how
+// many tables the lattice/stream extraction found in it.
+export async function classifyPage(
+  dataUrl: string,
+  text?: { usable: boolean; tables: number },
+): Promise<string | null> {
+  const { tableRegions, ink } = await imageSignals(dataUrl);
+  if (tableRegions > 0) return null;
+  if (text?.usable) return text.tables === 0 ? 'No table structure in the text layer and no ruled table regions' : null;
+  if (ink < BLANK_INK) return 'Blank page';
+  return null;
+}
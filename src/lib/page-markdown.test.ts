@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { stitchPages, type MarkdownPage } from '@/lib/page-markdown';
+import { gridToTable, tablesToMarkdown, tableToGrid, type StructuredTable } from '@/lib/table-structure';
+
+const table = (rows: string[][], pageTop?: boolean): StructuredTable => ({
+  ...gridToTable(rows, 'stream'),
+  ...(pageTop !== undefined ? { pageTop } : {}),
+});
+
+const page = (n: number, ...tables: StructuredTable[]): MarkdownPage => ({ page: n, content: tablesToMarkdown(tables), tables });
+
+const specs = [['Item', 'Value'], ['Flow', '250 m3/h'], ['Head', '45 m']];
+
+describe('stitchPages', () => {
+  it('merges a table that repeats its header on the next page', () => {
+    const sections = stitchPages([page(1, table(specs)), page(2, table([['Item', 'Value'], ['Speed', '1780 rpm']]))]);
+    expect(sections).toHaveLength(1);
+    expect(sections[0]).toMatchObject({ from: 1, to: 2, stitched: true });
+    expect(tableToGrid(sections[0].tables[0])).toEqual([...specs, ['Speed', '1780 rpm']]);
+  });
+
+  it('merges headerless rows at the top of the next page', () => {
+    const sections = stitchPages([page(1, table(specs)), page(2, table([['Speed', '1780 rpm'], ['Power', '30 kW']], true))]);
+    expect(sections).toHaveLength(1);
+    expect(tableToGrid(sections[0].tables[0])).toEqual([...specs, ['Speed', '1780 rpm'], ['Power', '30 kW']]);
+  });
+
+  it('keeps headerless rows apart when the table is not known to start the page', () => {
+    const next = [['Speed', '1780 rpm'], ['Power', '30 kW']];
+    expect(stitchPages([page(1, table(specs)), page(2, table(next))])).toHaveLength(2);
+    expect(stitchPages([page(1, table(specs)), page(2, table(next, false))])).toHaveLength(2);
+  });
+
+  it('keeps a repeated header under a heading apart', () => {
+    const sections = stitchPages([page(1, table(specs)), page(2, table([['Item', 'Value'], ['Speed', '1780 rpm']], false))]);
+    expect(sections).toHaveLength(2);
+  });
+
+  it('rejects a different column count, a page gap and document sections', () => {
+    const wide = table([['Speed', '1780', 'rpm'], ['Power', '30', 'kW']], true);
+    expect(stitchPages([page(1, table(specs)), page(2, wide)])).toHaveLength(2);
+    expect(stitchPages([page(1, table(specs)), page(3, table(specs, true))])).toHaveLength(2);
+    const titled = { ...page(2, table(specs, true)), title: 'Sheet Specs' };
+    expect(stitchPages([page(1, table(specs)), titled])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  parseMarkdownTables,
+  tableRows,
+  tablesToMarkdown,
+  tableToGrid,
+  type StructuredTable,
+} from '@/lib/table-structure';
+
+// Shared by the server pipeline and the client stream reader
+
+export interface MarkdownPage {
+  page: number;
+  content: string;
+  title?: string;
+  tables?: StructuredTable[];
+}
+
+// Consecutive pages joined by tables that continue across the page break
+export interface PageSection {
+  from: number;
+  to: number;
+  title?: string;
+  content: string;
+  tables: StructuredTable[];
+  // Set once a continuation was merged; `content` is then regenerated from `tables`
+  stitched: boolean;
+}
+
+const hasTables = (p: MarkdownPage) => p.content && !/No tables detected/i.test(p.content);
+
+const NUMERIC = /^[-+±]?\d[\d.,]*\s*[^\s\d]{0,8}$/;
+// e = empty, n = number (optionally with a unit), t = text
+const rowShape = (row: string[]) => row.map(c => (!c.trim() ? 'e' : NUMERIC.test(c.trim()) ? 'n' : 't')).join('');
+const headerKey = (t: StructuredTable) =>
+  tableToGrid(t).slice(0, t.header.length).map(r => r.map(c => c.trim().toLowerCase()).join('|')).join('\n');
+
+// How `next` (first table of a page) continues `prev` (last table of the page
+// before): 'repeat' when the header is repeated, 'headerless' when the page
+// starts straight with rows shaped like the previous body rows. A table under a
+// heading or text never continues; a headerless one must be known to start the page.
+function continuation(prev: StructuredTable, next: StructuredTable): 'repeat' | 'headerless' | null {
+  if (prev.columns !== next.columns || prev.body.length === 0 || next.pageTop === false) return null;
+  if (headerKey(prev) === headerKey(next)) return 'repeat';
+  if (!next.pageTop) return null;
+  const prevGrid = tableToGrid(prev);
+  const shape = rowShape(tableToGrid(next)[0]);
+  return shape.includes('n') && shape === rowShape(prevGrid[prevGrid.length - 1]) && shape !== rowShape(prevGrid[0])
+    ? 'headerless'
+    : null;
+}
+
+function appendContinuation(prev: StructuredTable, next: StructuredTable, kind: 'repeat' | 'headerless'): StructuredTable {
+  const rows = kind === 'repeat' ? next.body : tableRows(next);
+  return {
+    ...prev,
+    body: [...prev.body, ...rows],
+    footnotes: [...prev.footnotes, ...next.footnotes.filter(f => !prev.footnotes.includes(f))],
+  };
+}
+
+// Group pages into sections, merging a table that continues on the next page
+// into one table. Document sheets/sections (with a `title`) are never merged.
+export function stitchPages(pages: MarkdownPage[]): PageSection[] {
+  const sections: PageSection[] = [];
+  for (const p of [...pages].filter(hasTables).sort((a, b) => a.page - b.page)) {
+    const tables = p.tables ?? parseMarkdownTables(p.content);
+    const open = sections[sections.length - 1];
+    const last = open?.tables[open.tables.length - 1];
+    const kind = open && last && tables.length > 0 && !open.title && !p.title && open.to === p.page - 1
+      ? continuation(last, tables[0])
+      : null;
+    if (open && last && kind) {
+      open.tables = [...open.tables.slice(0, -1), appendContinuation(last, tables[0], kind), ...tables.slice(1)];
+      open.to = p.page;
+      open.stitched = true;
+      open.content = tablesToMarkdown(open.tables);
+      continue;
+    }
+    sections.push({ from: p.page, to: p.page, title: p.title, content: p.content, tables, stitched: false });
+  }
+  return sections;
+}
+
+// Combine with per-page headers and filter empty/no-table responses.
+// Document sheets/sections carry their own heading in `title` (e.g. "Sheet Specs").
+// With `stitch`, tables continuing across pages are merged under a page-range heading.
+export function assemblePageMarkdown(pages: MarkdownPage[], options: { stitch?: boolean } = {}): string {
+  const parts = options.stitch
+    ? stitchPages(pages).map(s => `### ${s.title || (s.from === s.to ? `Page ${s.from}` : `Pages ${s.from}–${s.to}`)}\n\n${s.content}`)
+    : [...pages]
+      .filter(hasTables)
+      .sort((a, b) => a.page - b.page)
+      .map(r => `### ${r.title || `Page ${r.page}`}\n\n${r.content}`);
+  return parts.length > 0 ? parts.join('\n\n') : 'No tables detected in the document.';
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { detectLatticeTables, latticeToTable, type HLine, type VLine } from '@/lib/pdf-lattice';
+import type { TextItem } from '@/lib/pdf-text';
+import { tableToGrid } from '@/lib/table-structure';
+
+// Text baseline inside the cell whose top-left corner is (x, y), 20pt rows
+const text = (str: string, x: number, y: number): TextItem => ({ str, x: x + 5, y: y + 15, width: str.length * 5, height: 10 });
+
+// Full rules of a grid at the given coordinates, minus the vertical rule pieces in `gaps`
+function grid(xs: number[], ys: number[], gaps: { x: number; y0: number; y1: number }[] = []) {
+  const h: HLine[] = ys.map(y => ({ y, x0: xs[0], x1: xs[xs.length - 1] }));
+  const v: VLine[] = xs.flatMap(x => {
+    const gap = gaps.find(g => g.x === x);
+    const top = ys[0];
+    const bottom = ys[ys.length - 1];
+    return gap ? [{ x, y0: top, y1: gap.y0 }, { x, y0: gap.y1, y1: bottom }].filter(l => l.y1 > l.y0) : [{ x, y0: top, y1: bottom }];
+  });
+  return { h, v };
+}
+
+describe('detectLatticeTables', () => {
+  it('builds the cell grid from crossing rules', () => {
+    const items = [
+      text('Item', 0, 0), text('Value', 100, 0),
+      text('Flow', 0, 20), text('250', 100, 20),
+    ];
+    const used = new Set<TextItem>();
+    const [table] = detectLatticeTables(grid([0, 100, 200], [0, 20, 40]), items, used);
+    expect(table).toMatchObject({ rows: 2, cols: 2, top: 0 });
+    expect(tableToGrid(latticeToTable(table))).toEqual([['Item', 'Value'], ['Flow', '250']]);
+    expect(used.size).toBe(4);
+  });
+
+  it('detects a merged cell where a rule is missing', () => {
+    // No rule between columns 2 and 3 in the header row
+    const lines = grid([0, 100, 200, 300], [0, 20, 40], [{ x: 200, y0: 0, y1: 20 }]);
+    const items = [
+      text('Item', 0, 0), text('Rated', 100, 0),
+      text('Flow', 0, 20), text('100', 100, 20), text('250', 200, 20),
+    ];
+    const [table] = detectLatticeTables(lines, items, new Set());
+    expect(table.cells).toContainEqual(expect.objectContaining({ row: 0, col: 1, rowSpan: 1, colSpan: 2, text: 'Rated' }));
+    expect(tableToGrid(latticeToTable(table))).toEqual([['Item', 'Rated', 'Rated'], ['Flow', '100', '250']]);
+  });
+
+  it('leaves the text of a rejected grid unused', () => {
+    // A framed box with a single line of text is not a table
+    const items = [text('Note', 0, 0)];
+    const used = new Set<TextItem>();
+    expect(detectLatticeTables(grid([0, 100, 200], [0, 20, 40]), items, used)).toEqual([]);
+    expect(used.size).toBe(0);
+  });
+
+  it('returns separate rule groups as tables in reading order', () => {
+    const lower = grid([0, 100, 200], [200, 220, 240]);
+    const upper = grid([0, 100, 200], [0, 20, 40]);
+    const items = [
+      text('C', 0, 200), text('D', 100, 200), text('3', 0, 220), text('4', 100, 220),
+      text('A', 0, 0), text('B', 100, 0), text('1', 0, 20), text('2', 100, 20),
+    ];
+    const tables = detectLatticeTables({ h: [...lower.h, ...upper.h], v: [...lower.v, ...upper.v] }, items, new Set());
+    expect(tables.map(t => tableToGrid(latticeToTable(t))[0])).toEqual([['A', 'B'], ['C', 'D']]);
+  });
+});
@@ -0,0 +1,315 @@
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from '@/lib/pdf-text';
+import { gridToTable, tableRows, type BBox, type StructuredTable } from '@/lib/table-structure';
+
+// Ruling-line ("lattice") table detection for vector PDFs.
+// Horizontal/vertical strokes and thin filled rectangles are read from the
+// pdfjs operator list, turned into a cell grid (including merged cells) and
+// filled from the text layer.
+
+export interface HLine { y: number; x0: number; x1: number }
+export interface VLine { x: number; y0: number; y1: number }
+
+export interface LatticeCell {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  text: string;
+  bbox: BBox;
+}
+
+export interface LatticeTable {
+  top: number;
+  bbox: BBox;
+  rows: number;
+  cols: number;
+  cells: LatticeCell[];
+}
+
+// Snap tolerance in PDF points (scale 1)
+const SNAP = 2;
+// Filled rectangles thinner than this are treated as rules
+const MAX_RULE_WIDTH = 2.5;
+const MIN_RULE_LENGTH = 4;
+
+// pdfjs DrawOPS codes used inside constructPath data (not exported by pdfjs)
+const DRAW_MOVE_TO = 0;
+const DRAW_LINE_TO = 1;
+const DRAW_CURVE_TO = 2;
+const DRAW_CLOSE_PATH = 3;
+
+type Matrix = number[];
+
+function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]];
+}
+
+export async function getPageRulingLines(page: any): Promise<{ h: HLine[]; v: VLine[] }> {
+  const OPS = (pdfjsLib as any).OPS;
+  const Util = (pdfjsLib as any).Util;
+  const viewport = page.getViewport({ scale: 1 });
+  const opList = await page.getOperatorList();
+  const strokeOps = new Set([
+    OPS.stroke, OPS.closeStroke, OPS.fillStroke, OPS.eoFillStroke, OPS.closeFillStroke, OPS.closeEOFillStroke,
+  ]);
+  const fillOps = new Set([OPS.fill, OPS.eoFill]);
+
+  const h: HLine[] = [];
+  const v: VLine[] = [];
+  const addSegment = (ax: number, ay: number, bx: number, by: number) => {
+    if (Math.abs(ay - by) <= SNAP && Math.abs(ax - bx) >= MIN_RULE_LENGTH) {
+      h.push({ y: (ay + by) / 2, x0: Math.min(ax, bx), x1: Math.max(ax, bx) });
+    } else if (Math.abs(ax - bx) <= SNAP && Math.abs(ay - by) >= MIN_RULE_LENGTH) {
+      v.push({ x: (ax + bx) / 2, y0: Math.min(ay, by), y1: Math.max(ay, by) });
+    }
+  };
+
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  const stack: Matrix[] = [];
+  for (let i = 0; i < opList.fnArray.length; i++) {
+    const fn = opList.fnArray[i];
+    const args = opList.argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = Util.transform(ctm, args);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (Array.isArray(args?.[0]) && args[0].length === 6) ctm = Util.transform(ctm, args[0]);
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.constructPath) {
+      const [op, data] = args;
+      const path = data?.[0];
+      const isStroke = strokeOps.has(op);
+      const isFill = fillOps.has(op);
+      // A path already rendered by pdfjs is replaced by a Path2D; nothing to read then
+      if ((!isStroke && !isFill) || !path || typeof path.length !== 'number') continue;
+
+      const m = Util.transform(viewport.transform, ctm);
+      let cur: [number, number] = [0, 0];
+      let start: [number, number] = [0, 0];
+      let sub: [number, number][] = [];
+      let onlyLines = true;
+      const flushFill = () => {
+        if (isFill && onlyLines && sub.length >= 2) {
+          const xs = sub.map(p => p[0]);
+          const ys = sub.map(p => p[1]);
+          const x0 = Math.min(...xs), x1 = Math.max(...xs), y0 = Math.min(...ys), y1 = Math.max(...ys);
+          if (y1 - y0 <= MAX_RULE_WIDTH && x1 - x0 >= MIN_RULE_LENGTH) h.push({ y: (y0 + y1) / 2, x0, x1 });
+          else if (x1 - x0 <= MAX_RULE_WIDTH && y1 - y0 >= MIN_RULE_LENGTH) v.push({ x: (x0 + x1) / 2, y0, y1 });
+        }
+        sub = [];
+        onlyLines = true;
+      };
+      for (let k = 0; k < path.length;) {
+        const code = path[k++];
+        if (code === DRAW_MOVE_TO) {
+          flushFill();
+          cur = start = applyMatrix(m, path[k++], path[k++]);
+          sub.push(cur);
+        } else if (code === DRAW_LINE_TO) {
+          const next = applyMatrix(m, path[k++], path[k++]);
+          if (isStroke) addSegment(cur[0], cur[1], next[0], next[1]);
+          cur = next;
+          sub.push(cur);
+        } else if (code === DRAW_CURVE_TO) {
+          k += 4;
+          cur = applyMatrix(m, path[k++], path[k++]);
+          onlyLines = false;
+        } else if (code === DRAW_CLOSE_PATH) {
+          if (isStroke) addSegment(cur[0], cur[1], start[0], start[1]);
+          cur = start;
+        } else {
+          break;
+        }
+      }
+      flushFill();
+    }
+  }
+  return { h, v };
+}
+
+function mergeH(lines: HLine[]): HLine[] {
+  const sorted = [...lines].sort((a, b) => a.y - b.y || a.x0 - b.x0);
+  const out: HLine[] = [];
+  for (const l of sorted) {
+    const last = out.find(o => Math.abs(o.y - l.y) <= SNAP && l.x0 <= o.x1 + SNAP && l.x1 >= o.x0 - SNAP);
+    if (last) {
+      last.x0 = Math.min(last.x0, l.x0);
+      last.x1 = Math.max(last.x1, l.x1);
+    } else {
+      out.push({ ...l });
+    }
+  }
+  return out;
+}
+
+function mergeV(lines: VLine[]): VLine[] {
+  const flipped = mergeH(lines.map(l => ({ y: l.x, x0: l.y0, x1: l.y1 })));
+  return flipped.map(l => ({ x: l.y, y0: l.x0, y1: l.x1 }));
+}
+
+// Cluster nearly-equal coordinates and return their averages in ascending order
+function clusterCoords(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const groups: number[][] = [];
+  for (const val of sorted) {
+    const g = groups[groups.length - 1];
+    if (g && val - g[g.length - 1] <= SNAP) g.push(val);
+    else groups.push([val]);
+  }
+  return groups.map(g => g.reduce((s, x) => s + x, 0) / g.length);
+}
+
+function covered(spans: [number, number][], a: number, b: number) {
+  let total = 0;
+  for (const [s, e] of spans) total += Math.max(0, Math.min(e, b) - Math.max(s, a));
+  return total >= (b - a) * 0.6;
+}
+
+function joinCellText(items: TextItem[]) {
+  const sorted = [...items].sort((a, b) => (Math.abs(a.y - b.y) <= Math.min(a.height, b.height) * 0.5 ? a.x - b.x : a.y - b.y));
+  let text = '';
+  let prev: TextItem | null = null;
+  for (const it of sorted) {
+    if (prev) {
+      const sameLine = Math.abs(prev.y - it.y) <= Math.min(prev.height, it.height) * 0.5;
+      const gap = it.x - (prev.x + prev.width);
+      if (!sameLine || gap > it.height * 0.15) text += ' ';
+    }
+    text += it.str;
+    prev = it;
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function buildTable(hs: HLine[], vs: VLine[], items: TextItem[], used: Set<TextItem>): LatticeTable | null {
+  const xs = clusterCoords(vs.map(l => l.x));
+  const ys = clusterCoords(hs.map(l => l.y));
+  const nRows = ys.length - 1;
+  const nCols = xs.length - 1;
+  if (nRows < 1 || nCols < 1 || nRows * nCols < 2) return null;
+
+  const hasV = (x: number, y0: number, y1: number) =>
+    covered(vs.filter(l => Math.abs(l.x - x) <= SNAP).map(l => [l.y0, l.y1] as [number, number]), y0, y1);
+  const hasH = (y: number, x0: number, x1: number) =>
+    covered(hs.filter(l => Math.abs(l.y - y) <= SNAP).map(l => [l.x0, l.x1] as [number, number]), x0, x1);
+
+  // Union elementary cells that are not separated by a rule
+  const parent = Array.from({ length: nRows * nCols }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+  for (let r = 0; r < nRows; r++) {
+    for (let c = 0; c < nCols; c++) {
+      if (c + 1 < nCols && !hasV(xs[c + 1], ys[r], ys[r + 1])) union(r * nCols + c, r * nCols + c + 1);
+      if (r + 1 < nRows && !hasH(ys[r + 1], xs[c], xs[c + 1])) union(r * nCols + c, (r + 1) * nCols + c);
+    }
+  }
+
+  const regions = new Map<number, { r0: number; r1: number; c0: number; c1: number; items: TextItem[] }>();
+  for (let r = 0; r < nRows; r++) {
+    for (let c = 0; c < nCols; c++) {
+      const root = find(r * nCols + c);
+      const reg = regions.get(root);
+      if (reg) {
+        reg.r0 = Math.min(reg.r0, r); reg.r1 = Math.max(reg.r1, r);
+        reg.c0 = Math.min(reg.c0, c); reg.c1 = Math.max(reg.c1, c);
+      } else {
+        regions.set(root, { r0: r, r1: r, c0: c, c1: c, items: [] });
+      }
+    }
+  }
+
+  const locate = (coords: number[], v: number) => {
+    for (let i = 0; i < coords.length - 1; i++) if (v >= coords[i] && v < coords[i + 1]) return i;
+    return -1;
+  };
+  // Items are only marked used once the table is accepted, so a rejected grid leaves them to stream extraction
+  const placed: TextItem[] = [];
+  for (const it of items) {
+    if (used.has(it)) continue;
+    const c = locate(xs, it.x + it.width / 2);
+    const r = locate(ys, it.y - it.height / 2);
+    if (r < 0 || c < 0) continue;
+    regions.get(find(r * nCols + c))!.items.push(it);
+    placed.push(it);
+  }
+
+  const cells: LatticeCell[] = Array.from(regions.values())
+    .map(reg => ({
+      row: reg.r0,
+      col: reg.c0,
+      rowSpan: reg.r1 - reg.r0 + 1,
+      colSpan: reg.c1 - reg.c0 + 1,
+      text: joinCellText(reg.items),
+      bbox: { x0: xs[reg.c0], y0: ys[reg.r0], x1: xs[reg.c1 + 1], y1: ys[reg.r1 + 1] },
+    }))
+    .sort((a, b) => a.row - b.row || a.col - b.col);
+  if (cells.filter(c => c.text).length < 2) return null;
+  for (const it of placed) used.add(it);
+
+  return {
+    top: ys[0],
+    bbox: { x0: xs[0], y0: ys[0], x1: xs[xs.length - 1], y1: ys[ys.length - 1] },
+    rows: nRows,
+    cols: nCols,
+    cells,
+  };
+}
+
+// Find connected groups of crossing rules and turn each into a table.
+// Text items placed into a table are added to `used`.
+export function detectLatticeTables(lines: { h: HLine[]; v: VLine[] }, items: TextItem[], used: Set<TextItem>): LatticeTable[] {
+  const hs = mergeH(lines.h);
+  const vs = mergeV(lines.v);
+  if (hs.length < 2 || vs.length < 2) return [];
+
+  const all = [...hs.map(l => ({ kind: 'h' as const, l })), ...vs.map(l => ({ kind: 'v' as const, l }))];
+  const parent = all.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < hs.length; i++) {
+    for (let j = 0; j < vs.length; j++) {
+      const a = hs[i];
+      const b = vs[j];
+      if (b.x >= a.x0 - SNAP && b.x <= a.x1 + SNAP && a.y >= b.y0 - SNAP && a.y <= b.y1 + SNAP) {
+        parent[find(i)] = find(hs.length + j);
+      }
+    }
+  }
+
+  const groups = new Map<number, { h: HLine[]; v: VLine[] }>();
+  all.forEach((entry, i) => {
+    const root = find(i);
+    const g = groups.get(root) ?? { h: [], v: [] };
+    if (entry.kind === 'h') g.h.push(entry.l as HLine);
+    else g.v.push(entry.l as VLine);
+    groups.set(root, g);
+  });
+
+  const tables: LatticeTable[] = [];
+  for (const g of groups.values()) {
+    if (g.h.length < 2 || g.v.length < 2) continue;
+    const table = buildTable(g.h, g.v, items, used);
+    if (table) tables.push(table);
+  }
+  return tables.sort((a, b) => a.top - b.top || a.bbox.x0 - b.bbox.x0);
+}
+
+// Structured form of a lattice table; cell bounding boxes come from the rules
+export function latticeToTable(table: LatticeTable): StructuredTable {
+  const grid: string[][] = Array.from({ length: table.rows }, () => new Array(table.cols).fill(''));
+  for (const cell of table.cells) grid[cell.row][cell.col] = cell.text;
+  const result = gridToTable(grid, 'lattice', table.cells, { bbox: table.bbox });
+  const byPos = new Map(table.cells.map(c => [`${c.row}:${c.col}`, c]));
+  tableRows(result).forEach((row, r) => {
+    for (const cell of row) {
+      const src = byPos.get(`${r}:${cell.col}`);
+      if (src) cell.bbox = src.bbox;
+    }
+  });
+  return result;
+}
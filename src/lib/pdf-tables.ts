@@ -0,0 +1,30 @@
+import type { TextItem } from '@/lib/pdf-text';
+import { textItemsToTables } from '@/lib/pdf-text';
+import { detectLatticeTables, getPageRulingLines, latticeToTable } from '@/lib/pdf-lattice';
+import { gridToTable, type StructuredTable } from '@/lib/table-structure';
+
+// Share of the page height holding running headers, ignored when checking what precedes the first table
+const TOP_MARGIN = 0.08;
+
+// Deterministic table extraction for a PDF page: ruled (lattice) tables first,
+// then text-alignment (stream) tables from whatever text is left over.
+// Returns the tables in reading order (empty if none were found).
+export async function extractPageTables(page: any, items: TextItem[]): Promise<StructuredTable[]> {
+  const used = new Set<TextItem>();
+  const lattice = detectLatticeTables(await getPageRulingLines(page), items, used);
+  const stream = textItemsToTables(items.filter(it => !used.has(it)));
+
+  const tables = [
+    ...lattice.map(t => ({ top: t.top, table: latticeToTable(t) })),
+    ...stream.map(t => ({ top: t.top, table: gridToTable(t.rows, 'stream', [], { bbox: t.bbox }) })),
+  ]
+    .sort((a, b) => a.top - b.top)
+    .map(t => t.table);
+  const first = tables[0];
+  if (first?.bbox) {
+    // A line of text ending above the table is a heading or prose the table follows
+    const margin = page.getViewport({ scale: 1 }).height * TOP_MARGIN;
+    first.pageTop = !items.some(it => it.str.trim() && it.y > margin && it.y <= first.bbox!.y0);
+  }
+  return tables;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { hasUsableTextLayer, textItemsToTables, type TextItem } from '@/lib/pdf-text';
+
+const item = (str: string, x: number, y: number): TextItem => ({ str, x, y, width: str.length * 5, height: 10 });
+
+// One text line per row, cells starting at the given x positions
+const line = (y: number, cells: [number, string][]) => cells.map(([x, str]) => item(str, x, y));
+
+describe('textItemsToTables', () => {
+  it('bands aligned text into columns', () => {
+    const items = [
+      ...line(100, [[50, 'Item'], [200, 'Value'], [300, 'Unit']]),
+      ...line(115, [[50, 'Flow'], [200, '250'], [300, 'm3/h']]),
+      ...line(130, [[50, 'Head'], [205, '45'], [300, 'm']]),
+    ];
+    const [table] = textItemsToTables(items);
+    expect(table.rows).toEqual([['Item', 'Value', 'Unit'], ['Flow', '250', 'm3/h'], ['Head', '45', 'm']]);
+    expect(table.top).toBe(90);
+    expect(table.bbox).toMatchObject({ x0: 50, y0: 90 });
+  });
+
+  it('joins words of one cell and keeps a wrapped cell line inside the table', () => {
+    const items = [
+      ...line(100, [[50, 'Rated'], [78, 'flow'], [200, '250']]),
+      ...line(115, [[50, 'Motor'], [200, '30']]),
+      ...line(130, [[50, 'enclosure']]),
+      ...line(145, [[50, 'Speed'], [200, '1780']]),
+    ];
+    const [table] = textItemsToTables(items);
+    expect(table.rows).toEqual([['Rated flow', '250'], ['Motor', '30'], ['enclosure', ''], ['Speed', '1780']]);
+  });
+
+  it('splits tables at a large vertical gap and ignores prose', () => {
+    const items = [
+      ...line(40, [[50, 'A single line of prose above the tables']]),
+      ...line(100, [[50, 'A'], [200, 'B']]),
+      ...line(115, [[50, '1'], [200, '2']]),
+      ...line(300, [[50, 'C'], [200, 'D']]),
+      ...line(315, [[50, '3'], [200, '4']]),
+    ];
+    expect(textItemsToTables(items).map(t => t.rows[0])).toEqual([['A', 'B'], ['C', 'D']]);
+  });
+
+  it('finds no table in single-column text', () => {
+    expect(textItemsToTables([...line(100, [[50, 'Just text']]), ...line(115, [[50, 'More text']])])).toEqual([]);
+  });
+});
+
+describe('hasUsableTextLayer', () => {
+  it('needs enough non-blank characters', () => {
+    expect(hasUsableTextLayer([item('short', 0, 0)])).toBe(false);
+    expect(hasUsableTextLayer([item('enough characters on the page', 0, 0)])).toBe(true);
+  });
+});
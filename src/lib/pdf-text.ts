@@ -0,0 +1,180 @@
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { BBox } from '@/lib/table-structure';
+
+// Text-layer table reconstruction for born-digital PDFs.
+// Works purely from pdfjs getTextContent() positions, no model call involved.
+
+export interface TextItem {
+  str: string;
+  // Viewport coordinates at scale 1 (origin top-left); y is the text baseline
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+export interface StreamTable {
+  top: number;
+  bbox: BBox;
+  rows: string[][];
+}
+
+interface Line {
+  y: number;
+  height: number;
+  segments: Segment[];
+}
+
+// Minimum number of non-whitespace characters for a page to count as having a text layer
+const MIN_TEXT_CHARS = 20;
+
+export async function getPageTextItems(page: any): Promise<TextItem[]> {
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const items: TextItem[] = [];
+  for (const it of content.items as any[]) {
+    if (typeof it?.str !== 'string' || !it.str.trim()) continue;
+    const tx = (pdfjsLib as any).Util.transform(viewport.transform, it.transform);
+    const height = Math.hypot(tx[2], tx[3]) || Math.abs(it.height) || 1;
+    items.push({ str: it.str, x: tx[4], y: tx[5], width: Math.abs(it.width) || 0, height });
+  }
+  return items;
+}
+
+export function hasUsableTextLayer(items: TextItem[]) {
+  let chars = 0;
+  for (const it of items) chars += it.str.replace(/\s+/g, '').length;
+  return chars >= MIN_TEXT_CHARS;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Group items sharing a baseline into lines, then split each line into
+// segments wherever the horizontal gap is wider than roughly one character height.
+function buildLines(items: TextItem[]): Line[] {
+  const tol = Math.max(2, median(items.map(i => i.height)) * 0.5);
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const groups: TextItem[][] = [];
+  for (const it of sorted) {
+    const cur = groups[groups.length - 1];
+    if (cur && Math.abs(cur[0].y - it.y) <= tol) cur.push(it);
+    else groups.push([it]);
+  }
+
+  return groups.map(group => {
+    group.sort((a, b) => a.x - b.x);
+    const height = median(group.map(i => i.height));
+    const gapThreshold = Math.max(3, height * 0.9);
+    const segments: Segment[] = [];
+    for (const it of group) {
+      const last = segments[segments.length - 1];
+      const x1 = it.x + it.width;
+      if (last && it.x - last.x1 <= gapThreshold) {
+        const joiner = it.x - last.x1 > height * 0.15 && !last.text.endsWith(' ') ? ' ' : '';
+        last.text += joiner + it.str;
+        last.x1 = Math.max(last.x1, x1);
+      } else {
+        segments.push({ text: it.str, x0: it.x, x1 });
+      }
+    }
+    for (const s of segments) s.text = s.text.trim();
+    return { y: group[0].y, height, segments: segments.filter(s => s.text) };
+  }).filter(l => l.segments.length > 0);
+}
+
+// Split lines into blocks of consecutive multi-column lines. A single-segment
+// line is kept only when it sits between two multi-column lines (wrapped cell text).
+function buildBlocks(lines: Line[]): Line[][] {
+  const blocks: Line[][] = [];
+  let cur: Line[] = [];
+  const flush = () => {
+    if (cur.length >= 2) blocks.push(cur);
+    cur = [];
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const prev = cur[cur.length - 1];
+    if (prev && line.y - prev.y > Math.max(prev.height, line.height) * 2.5) flush();
+    if (line.segments.length >= 2) {
+      cur.push(line);
+    } else if (cur.length > 0 && lines[i + 1]?.segments.length >= 2) {
+      cur.push(line);
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function overlap(a: { x0: number; x1: number }, b: { x0: number; x1: number }) {
+  return Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+}
+
+function blockToRows(block: Line[]): string[][] {
+  // Derive column bands from the lines with the most segments, so a wide
+  // header spanning several columns does not collapse them.
+  const maxSegs = Math.max(...block.map(l => l.segments.length));
+  const intervals = block
+    .filter(l => l.segments.length === maxSegs)
+    .flatMap(l => l.segments.map(s => ({ x0: s.x0, x1: s.x1 })))
+    .sort((a, b) => a.x0 - b.x0);
+  const columns: { x0: number; x1: number }[] = [];
+  for (const iv of intervals) {
+    const last = columns[columns.length - 1];
+    if (last && iv.x0 <= last.x1) last.x1 = Math.max(last.x1, iv.x1);
+    else columns.push({ ...iv });
+  }
+  if (columns.length < 2) return [];
+
+  const rows = block.map(line => {
+    const cells: string[] = new Array(columns.length).fill('');
+    for (const seg of line.segments) {
+      let best = 0;
+      let bestScore = -Infinity;
+      columns.forEach((col, idx) => {
+        const ov = overlap(seg, col);
+        const center = (seg.x0 + seg.x1) / 2;
+        const score = ov > 0 ? ov : -Math.min(Math.abs(center - col.x0), Math.abs(center - col.x1));
+        if (score > bestScore) {
+          bestScore = score;
+          best = idx;
+        }
+      });
+      cells[best] = cells[best] ? `${cells[best]} ${seg.text}` : seg.text;
+    }
+    return cells;
+  });
+
+  const keep = columns.map((_, idx) => rows.some(r => r[idx]));
+  return rows.map(r => r.filter((_, idx) => keep[idx]));
+}
+
+// Tables inferred from text alignment alone (no ruling lines), in reading order
+export function textItemsToTables(items: TextItem[]): StreamTable[] {
+  if (items.length === 0) return [];
+  return buildBlocks(buildLines(items))
+    .map(block => {
+      const top = block[0].y - block[0].height;
+      const last = block[block.length - 1];
+      const segs = block.flatMap(l => l.segments);
+      const bbox = {
+        x0: Math.min(...segs.map(s => s.x0)),
+        y0: top,
+        x1: Math.max(...segs.map(s => s.x1)),
+        y1: last.y + last.height * 0.25,
+      };
+      return { top, bbox, rows: blockToRows(block) };
+    })
+    .filter(t => t.rows.length >= 2 && t.rows[0].length >= 2);
+}
@@ -0,0 +1,130 @@
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// parse page specification like "1,3,5-7"
+export function parsePageSpec(spec: string, total: number): number[] {
+  if (!spec) return [];
+  const set = new Set<number>();
+  const parts = spec.split(',').map(s => s.trim()).filter(Boolean);
+  for (const p of parts) {
+    if (/^\d+$/.test(p)) {
+      const n = parseInt(p, 10);
+      if (n >= 1 && n <= total) set.add(n);
+    } else {
+      const m = p.match(/^(\d+)\s*-\s*(\d+)$/);
+      if (m) {
+        let a = parseInt(m[1], 10);
+        let b = parseInt(m[2], 10);
+        if (a > b) [a, b] = [b, a];
+        a = Math.max(1, a);
+        b = Math.min(total, b);
+        for (let i = a; i <= b; i++) set.add(i);
+      }
+    }
+  }
+  return Array.from(set).sort((a, b) => a - b);
+}
+
+export interface PageSelection {
+  start: number;
+  end?: number;
+  maxPages: number;
+  pages: string;
+  exclude: string;
+}
+
+// Resolve start/end/maxPages and include/exclude specs into a sorted page list
+export function selectPages(totalPages: number, sel: PageSelection): number[] {
+  const lastByMax = Math.min(totalPages, sel.start + (isFinite(sel.maxPages) ? sel.maxPages : Number.MAX_SAFE_INTEGER) - 1);
+  const lastByEnd = sel.end ? Math.min(sel.end, totalPages) : totalPages;
+  const lastPage = Math.min(lastByMax, lastByEnd);
+  const firstPage = Math.min(Math.max(1, sel.start), lastPage);
+
+  const includeList = parsePageSpec(sel.pages, totalPages);
+  const excludeList = new Set(parsePageSpec(sel.exclude, totalPages));
+  if (includeList.length > 0) {
+    return includeList.filter(p => p >= firstPage && p <= lastPage && !excludeList.has(p));
+  }
+  const selected: number[] = [];
+  for (let i = firstPage; i <= lastPage; i++) if (!excludeList.has(i)) selected.push(i);
+  return selected;
+}
+
+// Encrypted PDF without a password (REQUIRED) or with a wrong one (INCORRECT).
+// Routes answer these with HTTP 401 and the code so clients can ask for the password.
+export type PdfPasswordCode = 'PDF_PASSWORD_REQUIRED' | 'PDF_PASSWORD_INCORRECT';
+
+export function isPdfPasswordError(err: any): err is Error & { code: PdfPasswordCode; status: 401 } {
+  return err?.name === 'PdfPasswordError';
+}
+
+// pdfjs PasswordException codes: 1 = password needed, 2 = incorrect password
+function passwordError(err: any): Error {
+  const incorrect = err?.code === 2;
+  const error: any = new Error(incorrect ? 'Incorrect password for the encrypted PDF.' : 'The PDF is encrypted and needs a password.');
+  error.name = 'PdfPasswordError';
+  error.code = incorrect ? 'PDF_PASSWORD_INCORRECT' : 'PDF_PASSWORD_REQUIRED';
+  error.status = 401;
+  return error;
+}
+
+// Load a PDF with pdfjs in Node. `origin` is used to build absolute URLs for
+// fonts/cmaps so Node's fetch can resolve them in Vercel. `password` opens
+// encrypted files; it must never be logged.
+export async function loadPdfDocument(data: Uint8Array, origin: string, password?: string): Promise<any> {
+  // Ensure pdfjs fake worker can be resolved in Node/Turbopack
+  await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
+  (pdfjsLib as any).GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+  const loadingTask = (pdfjsLib as any).getDocument({
+    data,
+    // Prefer system fonts in Node; fallback to served assets
+    useSystemFonts: true,
+    // Serve these from Next public/ if available
+    standardFontDataUrl: `${origin}/pdfjs/standard_fonts/`,
+    cMapUrl: `${origin}/pdfjs/cmaps/`,
+    cMapPacked: true,
+    // Allow fetch usage in worker/fake-worker
+    useWorkerFetch: true,
+    ...(password ? { password } : {}),
+  });
+  try {
+    return await loadingTask.promise;
+  } catch (err: any) {
+    if (err?.name === 'PasswordException') throw passwordError(err);
+    throw err;
+  }
+}
+
+// Render a single pdfjs page to a PNG data URL using @napi-rs/canvas
+export async function renderPageToDataUrl(page: any, scale: number): Promise<string> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const viewport = page.getViewport({ scale });
+
+  const width = Math.ceil(viewport.width);
+  const height = Math.ceil(viewport.height);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+
+  const renderContext = {
+    canvasContext: ctx as any,
+    viewport,
+    // Provide a minimal canvasFactory compatible with pdfjs
+    canvasFactory: {
+      create(w: number, h: number) {
+        const c = createCanvas(w, h);
+        const context = c.getContext('2d');
+        return { canvas: c, context } as any;
+      },
+      reset(obj: any, w: number, h: number) {
+        obj.canvas.width = w;
+        obj.canvas.height = h;
+      },
+      destroy(obj: any) {
+        obj.canvas.width = 0;
+        obj.canvas.height = 0;
+      },
+    },
+  } as any;
+
+  await page.render(renderContext).promise;
+  return canvas.toDataURL('image/png');
+}
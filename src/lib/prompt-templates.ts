@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { hashBytes } from '@/lib/cache';
+import type { RequestFailure } from '@/lib/convert-request';
+import { GENERIC_EXTRACT_PROMPT, GENERIC_TITLE, GENERIC_VISION_PROMPT } from '@/lib/generic-prompt';
+
+// Named prompt templates per document type, read from PROMPTS_DIR (default
+// ./prompts) on every request so prompts can be tuned without a redeploy.
+// A template file `<name>.json` holds:
+//   { "title": "...", "vision": [lines], "extract": [lines], "fields": [...] }
+// `vision` is the table-reading prompt of /api/convert, `extract` the opening
+// instruction of /api/extract, `fields` the default extraction fields.
+// The version is a hash of the file, returned with every result.
+
+export interface PromptTemplate {
+  name: string;
+  title: string;
+  // First 12 hex chars of the file's sha256; 'builtin' for the fallback generic template
+  version: string;
+  vision: string;
+  extract: string;
+  fields?: string[];
+}
+
+export type TemplateRef = Pick<PromptTemplate, 'name' | 'version'>;
+
+export const DEFAULT_TEMPLATE = 'generic';
+
+const PROMPTS_DIR = process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// Used when prompts/generic.json is missing from PROMPTS_DIR so a bare deployment keeps working
+const BUILTIN_GENERIC: PromptTemplate = {
+  name: DEFAULT_TEMPLATE,
+  title: GENERIC_TITLE,
+  version: 'builtin',
+  vision: GENERIC_VISION_PROMPT,
+  extract: GENERIC_EXTRACT_PROMPT,
+};
+
+const joinLines = (value: unknown) => (Array.isArray(value) ? value.map(String).join('\n') : typeof value === 'string' ? value : '');
+
+function parseTemplate(name: string, raw: string): PromptTemplate {
+  const json = JSON.parse(raw);
+  const vision = joinLines(json?.vision);
+  const extract = joinLines(json?.extract);
+  if (!vision.trim() || !extract.trim()) throw new Error('"vision" and "extract" are required');
+  return {
+    name,
+    title: typeof json.title === 'string' && json.title.trim() ? json.title.trim() : name,
+    version: hashBytes(raw).slice(0, 12),
+    vision,
+    extract,
+    ...(Array.isArray(json.fields) && json.fields.length > 0 ? { fields: json.fields.map(String) } : {}),
+  };
+}
+
+export const templateRef = ({ name, version }: PromptTemplate): TemplateRef => ({ name, version });
+
+// Load a template by name (empty = generic); unknown or broken templates are request errors
+export async function loadPromptTemplate(name?: string | null): Promise<{ template: PromptTemplate } | RequestFailure> {
+  const wanted = (name || '').trim().toLowerCase() || DEFAULT_TEMPLATE;
+  if (!TEMPLATE_NAME.test(wanted)) {
+    return { error: `Invalid template name: ${wanted}`, status: 400 };
+  }
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(PROMPTS_DIR, `${wanted}.json`), 'utf8');
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+    if (wanted === DEFAULT_TEMPLATE) return { template: BUILTIN_GENERIC };
+    const available = (await listPromptTemplates()).map(t => t.name).join(', ');
+    return { error: `Unknown template: ${wanted}. Available: ${available}`, status: 400 };
+  }
+  try {
+    return { template: parseTemplate(wanted, raw) };
+  } catch (e: any) {
+    console.error(`[prompts] ${wanted}.json is invalid:`, e?.message || e);
+    return { error: `Template ${wanted} is invalid: ${e?.message || e}`, status: 500 };
+  }
+}
+
+// Templates on disk (plus the built-in generic one when its file is missing)
+export async function listPromptTemplates(): Promise<(TemplateRef & { title: string })[]> {
+  let names: string[] = [];
+  try {
+    names = (await fs.readdir(PROMPTS_DIR))
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.slice(0, -'.json'.length))
+      .filter(n => TEMPLATE_NAME.test(n));
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+  }
+  const list: (TemplateRef & { title: string })[] = [];
+  for (const name of names.sort()) {
+    try {
+      const t = parseTemplate(name, await fs.readFile(path.join(PROMPTS_DIR, `${name}.json`), 'utf8'));
+      list.push({ name: t.name, version: t.version, title: t.title });
+    } catch (e: any) {
+      console.warn(`[prompts] skipping ${name}.json:`, e?.message || e);
+    }
+  }
+  if (!names.includes(DEFAULT_TEMPLATE)) {
+    list.unshift({ name: BUILTIN_GENERIC.name, version: BUILTIN_GENERIC.version, title: BUILTIN_GENERIC.title });
+  }
+  return list;
+}
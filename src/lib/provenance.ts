@@ -0,0 +1,163 @@
+// Where an extracted field value came from in the markdown sent to /api/extract.
+// Pages come from the `### Page N` / `### Pages A–B` headings written by the
+// converter (`### Image N` for pasted images); values are matched against the pipe-table cells (and, failing
+// that, plain lines) of the markdown. Client-safe: no server imports.
+
+export interface FieldProvenance {
+  // First page of the section the value was found in (absent for sheet/section headings)
+  page?: number;
+  // Heading of that section, e.g. "Page 3" or "Sheet Specs"
+  section?: string;
+  // 1-based table index within the section; absent when the value came from plain text
+  table?: number;
+  // Label of the row (its first cell) and header of the column the value sits in
+  row?: string;
+  column?: string;
+  // Exact source text of the cell (or line)
+  text: string;
+  // Character range of `text` in the submitted markdown
+  offset: number;
+  length: number;
+}
+
+// `length` is the raw (escaped) length in the markdown
+interface SourceCell { text: string; offset: number; length: number }
+
+interface SourceTable {
+  page?: number;
+  section?: string;
+  table: number;
+  rows: SourceCell[][];
+}
+
+const HEADING = /^#{1,6}\s+(.*)$/;
+const PAGE_HEADING = /^(?:Pages?|Image)\s+(\d+)/i;
+const SEPARATOR_ROW = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+const norm = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Cells of one pipe-table row with their offsets; escaped pipes stay inside the cell
+function splitRow(line: string, lineOffset: number): SourceCell[] {
+  const cells: SourceCell[] = [];
+  const bounds: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '|' && line[i - 1] !== '\\') bounds.push(i);
+  }
+  const trimmed = line.trimEnd();
+  if (!trimmed.startsWith('|')) bounds.unshift(-1);
+  if (!trimmed.endsWith('|') || trimmed.endsWith('\\|')) bounds.push(line.length);
+  for (let b = 0; b < bounds.length - 1; b++) {
+    const raw = line.slice(bounds[b] + 1, bounds[b + 1]);
+    const lead = raw.length - raw.trimStart().length;
+    cells.push({ text: raw.trim().replace(/\\\|/g, '|'), offset: lineOffset + bounds[b] + 1 + lead, length: raw.trim().length });
+  }
+  return cells;
+}
+
+function scanMarkdown(markdown: string) {
+  const lines = markdown.split('\n');
+  const starts: number[] = [];
+  let pos = 0;
+  for (const line of lines) {
+    starts.push(pos);
+    pos += line.length + 1;
+  }
+  const tables: SourceTable[] = [];
+  const plain: { line: string; offset: number; page?: number; section?: string }[] = [];
+  let page: number | undefined;
+  let section: string | undefined;
+  let tableOnPage = 0;
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i].replace(/\r$/, '');
+    const heading = line.trim().match(HEADING);
+    if (heading) {
+      section = heading[1].trim();
+      const m = section.match(PAGE_HEADING);
+      page = m ? Number(m[1]) : undefined;
+      tableOnPage = 0;
+      i++;
+      continue;
+    }
+    if (line.trim().startsWith('|') && SEPARATOR_ROW.test((lines[i + 1] || '').trim())) {
+      const rows = [splitRow(line, starts[i])];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitRow(lines[i].replace(/\r$/, ''), starts[i]));
+        i++;
+      }
+      tables.push({ page, section, table: ++tableOnPage, rows });
+      continue;
+    }
+    if (line.trim() && !line.trim().startsWith('<!--')) plain.push({ line, offset: starts[i], page, section });
+    i++;
+  }
+  return { tables, plain };
+}
+
+// Locate each non-empty field value. `labels` gives the row labels that identify
+// a field (its synonyms); they break ties when the same value occurs several times.
+export function locateFields(
+  markdown: string,
+  values: Record<string, string>,
+  labels: (field: string) => string[] = field => [field],
+): Record<string, FieldProvenance> {
+  const { tables, plain } = scanMarkdown(markdown || '');
+  const out: Record<string, FieldProvenance> = {};
+  for (const [field, rawValue] of Object.entries(values)) {
+    const value = norm(rawValue || '');
+    if (!value) continue;
+    const keys = labels(field).map(norm).filter(Boolean);
+    const labelled = (text: string) => keys.some(k => norm(text).includes(k));
+    let best: { score: number; prov: FieldProvenance } | null = null;
+    for (const t of tables) {
+      const header = t.rows[0] || [];
+      for (const [r, row] of t.rows.entries()) {
+        for (const [c, cell] of row.entries()) {
+          const text = norm(cell.text);
+          if (!text) continue;
+          // Exact cell, value inside the cell, or cell inside the value (e.g. unit added from the header)
+          const match = text === value ? 3 : text.includes(value) ? 2 : value.includes(text) && /\d/.test(text) ? 1 : 0;
+          if (match === 0) continue;
+          const rowLabel = c > 0 ? row[0]?.text : undefined;
+          const column = r > 0 ? header[c]?.text : undefined;
+          const score = match * 10 + (rowLabel && labelled(rowLabel) ? 5 : 0) + (column && labelled(column) ? 2 : 0);
+          if (best && score <= best.score) continue;
+          best = {
+            score,
+            prov: {
+              ...(t.page !== undefined ? { page: t.page } : {}),
+              ...(t.section ? { section: t.section } : {}),
+              table: t.table,
+              ...(rowLabel ? { row: rowLabel } : {}),
+              ...(column ? { column } : {}),
+              text: cell.text,
+              offset: cell.offset,
+              length: cell.length,
+            },
+          };
+        }
+      }
+    }
+    if (!best) {
+      // "Key: value" lines outside tables
+      const hit = plain.find(p => norm(p.line).includes(value));
+      if (hit) {
+        const at = hit.line.toLowerCase().indexOf((rawValue || '').trim().toLowerCase());
+        const text = at >= 0 ? hit.line.slice(at, at + rawValue.trim().length) : hit.line.trim();
+        best = {
+          score: 0,
+          prov: {
+            ...(hit.page !== undefined ? { page: hit.page } : {}),
+            ...(hit.section ? { section: hit.section } : {}),
+            text,
+            offset: hit.offset + (at >= 0 ? at : hit.line.length - hit.line.trimStart().length),
+            length: text.length,
+          },
+        };
+      }
+    }
+    if (best) out[field] = best.prov;
+  }
+  return out;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { mergeCropResults } from '@/lib/regions';
+import { tableToGrid } from '@/lib/table-structure';
+
+const tile = (y0: number, y1: number) => ({ x0: 0, y0, x1: 1, y1, kind: 'tile' as const });
+
+describe('mergeCropResults', () => {
+  it('joins a tile that repeats the header', () => {
+    const tables = mergeCropResults([
+      { region: tile(0, 0.6), content: '| Item | Value |\n| --- | --- |\n| Flow | 250 |\n| Head | 45 |' },
+      { region: tile(0.5, 1), content: '| Item | Value |\n| --- | --- |\n| Head | 45 |\n| Power | 30 |' },
+    ]);
+    expect(tables).toHaveLength(1);
+    expect(tableToGrid(tables[0])).toEqual([['Item', 'Value'], ['Flow', '250'], ['Head', '45'], ['Power', '30']]);
+  });
+
+  it('joins a headerless continuation tile instead of losing its first row', () => {
+    const tables = mergeCropResults([
+      { region: tile(0, 0.6), content: '| Item | Value |\n| --- | --- |\n| Flow | 250 |\n| Head | 45 |' },
+      { region: tile(0.5, 1), content: '| Speed | 1780 |\n| --- | --- |\n| Power | 30 |' },
+    ]);
+    expect(tables).toHaveLength(1);
+    expect(tableToGrid(tables[0])).toEqual([['Item', 'Value'], ['Flow', '250'], ['Head', '45'], ['Speed', '1780'], ['Power', '30']]);
+  });
+
+  it('keeps tables of separate regions apart', () => {
+    const tables = mergeCropResults([
+      { region: { x0: 0, y0: 0, x1: 1, y1: 0.4, kind: 'table' }, content: '| A | B |\n| --- | --- |\n| 1 | 2 |' },
+      { region: { x0: 0, y0: 0.5, x1: 1, y1: 0.9, kind: 'table' }, content: '| C | D |\n| --- | --- |\n| 3 | 4 |' },
+      { region: { x0: 0, y0: 0, x1: 1, y1: 1, kind: 'rest' }, content: '| Note | Text |\n| --- | --- |\n| x | y |' },
+    ]);
+    expect(tables.map(t => t.region?.kind)).toEqual(['table', 'table', 'rest']);
+  });
+
+  it('keeps identical tables of different regions', () => {
+    const content = '| A | B |\n| --- | --- |\n| 1 | 2 |';
+    const tables = mergeCropResults([
+      { region: { x0: 0, y0: 0, x1: 1, y1: 0.4, kind: 'table' }, content },
+      { region: { x0: 0, y0: 0.5, x1: 1, y1: 0.9, kind: 'table' }, content },
+    ]);
+    expect(tables).toHaveLength(2);
+  });
+
+  it('drops a table read twice in the tile overlap', () => {
+    const content = '| A | B |\n| --- | --- |\n| 1 | 2 |';
+    const tables = mergeCropResults([
+      { region: tile(0, 0.6), content },
+      { region: tile(0.5, 1), content },
+    ]);
+    expect(tables).toHaveLength(1);
+    expect(tableToGrid(tables[0])).toEqual([['A', 'B'], ['1', '2']]);
+  });
+
+  it('marks the first table as starting the page only from a clear topmost region', () => {
+    const content = '| A | B |\n| --- | --- |\n| 1 | 2 |';
+    const regions = (pageTop: boolean) => mergeCropResults([
+      { region: { x0: 0, y0: 0.1, x1: 1, y1: 0.4, kind: 'table', pageTop }, content },
+      { region: { x0: 0, y0: 0.5, x1: 1, y1: 0.9, kind: 'table' }, content: '| C | D |\n| --- | --- |\n| 3 | 4 |' },
+    ]);
+    expect(regions(true).map(t => t.pageTop)).toEqual([true, undefined]);
+    expect(regions(false)[0].pageTop).toBe(false);
+    expect(mergeCropResults([{ region: tile(0, 0.6), content }])[0].pageTop).toBeUndefined();
+  });
+
+  it('keeps repeated rows outside the overlap band', () => {
+    const blank = ['', ''];
+    const tables = mergeCropResults([
+      {
+        region: tile(0, 0.55),
+        content: '| Item | Value |\n| --- | --- |\n| Flow | 250 |\n|  |  |\n| Head | 45 |\n| Speed | 1780 |\n| Power | 30 |',
+      },
+      { region: tile(0.5, 1), content: '| Item | Value |\n| --- | --- |\n| Power | 30 |\n|  |  |\n| Flow | 250 |' },
+    ]);
+    expect(tableToGrid(tables[0])).toEqual([
+      ['Item', 'Value'], ['Flow', '250'], blank, ['Head', '45'], ['Speed', '1780'], ['Power', '30'], blank, ['Flow', '250'],
+    ]);
+  });
+});
@@ -0,0 +1,323 @@
+import {
+  parseMarkdownTables,
+  tableToGrid,
+  tableToMarkdown,
+  type Region,
+  type StructuredTable,
+} from '@/lib/table-structure';
+
+// Table region detection and tiling on a rendered page (or uploaded image).
+// Ruled tables are found from long dark horizontal/vertical runs; each region is
+// cropped and sent to the model on its own so small text keeps its resolution.
+// Whatever else is printed on the page (unruled tables, spec text) is sent as
+// one more crop with the regions blanked out. Pages without detectable regions
+// that are still too large are cut into overlapping tiles instead.
+
+export interface Crop {
+  region: Region;
+  dataUrl: string;
+}
+
+// Longest side (px) sent in one piece; larger pages/regions are tiled
+const TILE_MAX_PX = Number(process.env.TABLE_TILE_MAX_PX) || 2048;
+// Overlap between neighbouring tiles, as a fraction of the tile size
+const TILE_OVERLAP = Math.min(0.5, Math.max(0, Number(process.env.TABLE_TILE_OVERLAP ?? 0.12)));
+// More regions than this usually means a drawing full of boxes; tile instead
+const MAX_REGIONS = 12;
+// Downsampling cell size (px) used to group line pixels into regions
+const CELL = 8;
+const DARK = 128;
+// Share of dark pixels outside the table regions below which the rest of the page is not sent
+const REST_MIN_INK = 0.001;
+// Share of the page height holding running headers, ignored when checking what is above the first table
+const TOP_MARGIN = 0.08;
+
+interface Box { x0: number; y0: number; x1: number; y1: number }
+
+export function darkMask(data: Uint8ClampedArray, width: number, height: number) {
+  const mask = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    const alpha = data[p + 3] / 255;
+    const lum = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) * alpha + 255 * (1 - alpha);
+    if (lum < DARK) mask[i] = 1;
+  }
+  return mask;
+}
+
+// Cells of a coarse grid that contain part of a long horizontal or vertical line
+function lineCells(mask: Uint8Array, width: number, height: number) {
+  const gw = Math.ceil(width / CELL);
+  const gh = Math.ceil(height / CELL);
+  const hCells = new Uint8Array(gw * gh);
+  const vCells = new Uint8Array(gw * gh);
+  const minH = Math.max(30, Math.round(width * 0.04));
+  const minV = Math.max(20, Math.round(height * 0.015));
+
+  for (let y = 0; y < height; y++) {
+    let start = -1;
+    for (let x = 0; x <= width; x++) {
+      const dark = x < width && mask[y * width + x] === 1;
+      if (dark && start < 0) start = x;
+      if (!dark && start >= 0) {
+        if (x - start >= minH) {
+          for (let cx = Math.floor(start / CELL); cx <= Math.floor((x - 1) / CELL); cx++) hCells[Math.floor(y / CELL) * gw + cx] = 1;
+        }
+        start = -1;
+      }
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let start = -1;
+    for (let y = 0; y <= height; y++) {
+      const dark = y < height && mask[y * width + x] === 1;
+      if (dark && start < 0) start = y;
+      if (!dark && start >= 0) {
+        if (y - start >= minV) {
+          for (let cy = Math.floor(start / CELL); cy <= Math.floor((y - 1) / CELL); cy++) vCells[cy * gw + Math.floor(x / CELL)] = 1;
+        }
+        start = -1;
+      }
+    }
+  }
+  return { gw, gh, hCells, vCells };
+}
+
+// Connected groups of line cells (bridging gaps of up to two cells) that contain
+// both horizontal and vertical rules
+function detectBoxes(data: Uint8ClampedArray, width: number, height: number): Box[] {
+  const { gw, gh, hCells, vCells } = lineCells(darkMask(data, width, height), width, height);
+  const seen = new Uint8Array(gw * gh);
+  const boxes: Box[] = [];
+  for (let start = 0; start < gw * gh; start++) {
+    if (seen[start] || !(hCells[start] || vCells[start])) continue;
+    const stack = [start];
+    seen[start] = 1;
+    let gx0 = gw, gy0 = gh, gx1 = 0, gy1 = 0, hCount = 0, vCount = 0;
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      const cx = idx % gw;
+      const cy = Math.floor(idx / gw);
+      gx0 = Math.min(gx0, cx); gx1 = Math.max(gx1, cx);
+      gy0 = Math.min(gy0, cy); gy1 = Math.max(gy1, cy);
+      hCount += hCells[idx];
+      vCount += vCells[idx];
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= gw || ny >= gh) continue;
+          const n = ny * gw + nx;
+          if (!seen[n] && (hCells[n] || vCells[n])) {
+            seen[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    const box = { x0: gx0 * CELL, y0: gy0 * CELL, x1: Math.min(width, (gx1 + 1) * CELL), y1: Math.min(height, (gy1 + 1) * CELL) };
+    if (hCount >= 2 && vCount >= 2 && box.x1 - box.x0 >= 80 && box.y1 - box.y0 >= 40) boxes.push(box);
+  }
+  return boxes;
+}
+
+function pad(box: Box, width: number, height: number): Box {
+  const m = Math.round(Math.max(width, height) * 0.01);
+  return { x0: Math.max(0, box.x0 - m), y0: Math.max(0, box.y0 - m), x1: Math.min(width, box.x1 + m), y1: Math.min(height, box.y1 + m) };
+}
+
+function mergeOverlapping(boxes: Box[]): Box[] {
+  const out = [...boxes];
+  for (let merged = true; merged;) {
+    merged = false;
+    for (let i = 0; i < out.length && !merged; i++) {
+      for (let j = i + 1; j < out.length; j++) {
+        const a = out[i];
+        const b = out[j];
+        if (a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1) {
+          out[i] = { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) };
+          out.splice(j, 1);
+          merged = true;
+          break;
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// Reading order: top to bottom, left to right for boxes that share a band
+function readingOrder(a: Box, b: Box) {
+  const overlapY = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+  if (overlapY > 0.5 * Math.min(a.y1 - a.y0, b.y1 - b.y0)) return a.x0 - b.x0;
+  return a.y0 - b.y0;
+}
+
+// Split [start, end) into pieces of at most `max` px that overlap by TILE_OVERLAP
+function spans(start: number, end: number, max: number): [number, number][] {
+  const len = end - start;
+  if (len <= max) return [[start, end]];
+  const overlap = Math.round(max * TILE_OVERLAP);
+  const count = Math.ceil((len - overlap) / (max - overlap));
+  const step = (len - max) / (count - 1);
+  return Array.from({ length: count }, (_, i) => {
+    const s = Math.round(start + i * step);
+    return [s, Math.min(end, s + max)] as [number, number];
+  });
+}
+
+function tile(box: Box): Box[] {
+  const out: Box[] = [];
+  for (const [y0, y1] of spans(box.y0, box.y1, TILE_MAX_PX)) {
+    for (const [x0, x1] of spans(box.x0, box.x1, TILE_MAX_PX)) out.push({ x0, y0, x1, y1 });
+  }
+  return out;
+}
+
+export async function loadPixels(imageDataUrl: string) {
+  const { createCanvas, loadImage } = await import('@napi-rs/canvas');
+  const image = await loadImage(Buffer.from(imageDataUrl.slice(imageDataUrl.indexOf(',') + 1), 'base64'));
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return { image, width: image.width, height: image.height, data: ctx.getImageData(0, 0, image.width, image.height).data };
+}
+
+// Padded table boxes, or none when the page looks like a drawing
+function tableBoxes(data: Uint8ClampedArray, width: number, height: number): Box[] {
+  const boxes = mergeOverlapping(detectBoxes(data, width, height).map(b => pad(b, width, height)));
+  // A single box covering most of the page is a drawing frame, not a table
+  const pageArea = width * height;
+  if (boxes.length > MAX_REGIONS || boxes.some(b => (b.x1 - b.x0) * (b.y1 - b.y0) > 0.8 * pageArea)) return [];
+  return boxes;
+}
+
+// Cheap signals for the page pre-classifier: ruled table regions and the share of dark pixels
+export async function imageSignals(imageDataUrl: string): Promise<{ tableRegions: number; ink: number }> {
+  const { width, height, data } = await loadPixels(imageDataUrl);
+  const mask = darkMask(data, width, height);
+  let dark = 0;
+  for (let i = 0; i < mask.length; i++) dark += mask[i];
+  return { tableRegions: tableBoxes(data, width, height).length, ink: dark / Math.max(1, mask.length) };
+}
+
+// Decide which crops of an image to send: detected table regions (tiled when
+// still too large) plus the rest of the page when it has ink, overlapping tiles
+// for large pages without regions, or the whole image unchanged.
+export async function planCrops(imageDataUrl: string): Promise<Crop[]> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const { image, width, height, data } = await loadPixels(imageDataUrl);
+  const whole: Crop = { region: { x0: 0, y0: 0, x1: 1, y1: 1, kind: 'page' }, dataUrl: imageDataUrl };
+  const boxes = tableBoxes(data, width, height);
+
+  let pieces: { box: Box; kind: Region['kind']; pageTop?: boolean }[];
+  if (boxes.length > 0) {
+    const topmost = boxes.reduce((a, b) => (b.y0 < a.y0 ? b : a));
+    const pageTop = inkBetween(data, width, Math.round(height * TOP_MARGIN), topmost.y0) < REST_MIN_INK;
+    pieces = boxes.sort(readingOrder).flatMap(b => {
+      const tiles = tile(b);
+      return tiles.map((t, i) => ({
+        box: t,
+        kind: tiles.length > 1 ? 'tile' as const : 'table' as const,
+        ...(b === topmost && i === 0 ? { pageTop } : {}),
+      }));
+    });
+    if (restInk(data, width, height, boxes) >= REST_MIN_INK) {
+      pieces.push(...tile({ x0: 0, y0: 0, x1: width, y1: height }).map(t => ({ box: t, kind: 'rest' as const })));
+    }
+  } else if (Math.max(width, height) > TILE_MAX_PX) {
+    pieces = tile({ x0: 0, y0: 0, x1: width, y1: height }).map(t => ({ box: t, kind: 'tile' as const }));
+  } else {
+    return [whole];
+  }
+
+  return pieces.map(({ box, kind, pageTop }) => {
+    const w = box.x1 - box.x0;
+    const h = box.y1 - box.y0;
+    const crop = createCanvas(w, h);
+    const cctx = crop.getContext('2d');
+    cctx.fillStyle = '#ffffff';
+    cctx.fillRect(0, 0, w, h);
+    cctx.drawImage(image, box.x0, box.y0, w, h, 0, 0, w, h);
+    // The tables are read from their own crops
+    if (kind === 'rest') for (const b of boxes) cctx.fillRect(b.x0 - box.x0, b.y0 - box.y0, b.x1 - b.x0, b.y1 - b.y0);
+    return {
+      region: { x0: box.x0 / width, y0: box.y0 / height, x1: box.x1 / width, y1: box.y1 / height, kind, ...(pageTop !== undefined ? { pageTop } : {}) },
+      dataUrl: crop.toDataURL('image/png'),
+    };
+  });
+}
+
+// Share of dark pixels outside the given boxes
+function restInk(data: Uint8ClampedArray, width: number, height: number, boxes: Box[]) {
+  const mask = darkMask(data, width, height);
+  for (const b of boxes) {
+    for (let y = b.y0; y < b.y1; y++) mask.fill(0, y * width + b.x0, y * width + b.x1);
+  }
+  let dark = 0;
+  for (let i = 0; i < mask.length; i++) dark += mask[i];
+  return dark / Math.max(1, mask.length);
+}
+
+// Share of dark pixels in the full-width band of rows [y0, y1)
+function inkBetween(data: Uint8ClampedArray, width: number, y0: number, y1: number) {
+  if (y1 <= y0) return 0;
+  const mask = darkMask(data.subarray(y0 * width * 4, y1 * width * 4), width, y1 - y0);
+  let dark = 0;
+  for (let i = 0; i < mask.length; i++) dark += mask[i];
+  return dark / mask.length;
+}
+
+const rowKey = (row: string[]) => row.join('\u0000');
+
+// Tiles of the same piece stacked vertically: a table at the top of the lower one may continue one above
+const continues = (below: Region, above?: Region) =>
+  !!above && (below.kind === 'tile' || below.kind === 'rest') && above.kind === below.kind
+  && Math.abs(above.x0 - below.x0) < 1e-6 && Math.abs(above.x1 - below.x1) < 1e-6 && above.y0 < below.y0;
+
+// Combine per-crop model output in crop order. A table repeated in an
+// overlapping tile is dropped, and the first table of a tile continues the last
+// table of the tile above when the column count matches. Its header is kept out
+// when it repeats the previous one; otherwise the tile started mid-table and the
+// model took a data row for a header, so those rows are appended too. Rows at
+// the top of the tile that repeat the previous tile's last rows are skipped, as
+// far as the tile overlap can hold them; repeats elsewhere are kept.
+export function mergeCropResults(results: { region: Region; content: string }[]): StructuredTable[] {
+  const out: StructuredTable[] = [];
+  const seen = new Set<string>();
+  // Tile each merged table last grew from, with the number of rows read there
+  const lastTile = new Map<StructuredTable, { region: Region; rows: number }>();
+  for (const { region, content } of results) {
+    const regionId = `${region.kind}:${region.x0},${region.y0},${region.x1},${region.y1}`;
+    parseMarkdownTables(content).forEach((table, t) => {
+      const md = tableToMarkdown(table);
+      if (seen.has(`${regionId}\n${md}`)) return;
+      seen.add(`${regionId}\n${md}`);
+      const grid = tableToGrid(table);
+      const prev = t === 0 ? [...out].reverse().find(p => continues(region, p.region)) : undefined;
+      if (prev && prev.columns === table.columns) {
+        const prevGrid = tableToGrid(prev);
+        const header = grid.slice(0, table.header.length).map(rowKey).join('\n');
+        const sameHeader = header === prevGrid.slice(0, prev.header.length).map(rowKey).join('\n');
+        const rows = sameHeader ? table.body : [...table.header, ...table.body];
+        const incoming = grid.slice(sameHeader ? table.header.length : 0).map(rowKey);
+        const tail = prevGrid.map(rowKey);
+        // Rows of the previous tile inside the overlap band (plus one cut through its edge)
+        const last = lastTile.get(prev) ?? { region: prev.region!, rows: prevGrid.length };
+        const band = (last.region.y1 - region.y0) / Math.max(1e-6, last.region.y1 - last.region.y0);
+        let repeated = band > 0 ? Math.min(rows.length, last.rows, Math.ceil(last.rows * band) + 1) : 0;
+        while (repeated > 0 && tail.slice(-repeated).join('\n') !== incoming.slice(0, repeated).join('\n')) repeated--;
+        prev.body.push(...rows.slice(repeated));
+        prev.footnotes.push(...table.footnotes.filter(f => !prev.footnotes.includes(f)));
+        lastTile.set(prev, { region, rows: grid.length });
+        return;
+      }
+      const entry = { ...table, region };
+      out.push(entry);
+      lastTile.set(entry, { region, rows: grid.length });
+    });
+  }
+  // The page starts with a table only if it came from the topmost region and nothing is printed above that
+  const top = results.find(r => r.region.pageTop !== undefined)?.region;
+  if (out.length > 0 && top) out[0].pageTop = out[0].region === top && !!top.pageTop;
+  return out;
+}
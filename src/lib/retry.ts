@@ -0,0 +1,57 @@
+// Retry helper with exponential backoff and Retry-After handling for model calls
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
+}
+
+export function isRetryableError(err: any) {
+  const status = Number(err?.status);
+  if (status === 408 || status === 409 || status === 429 || status >= 500) return true;
+  const name = String(err?.name || '');
+  const code = String(err?.code || err?.cause?.code || '');
+  return (
+    /Timeout|Connection/i.test(name) ||
+    ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code)
+  );
+}
+
+// Delay requested by the server via `retry-after-ms` or `retry-after` (seconds or HTTP date)
+export function retryAfterMs(err: any): number | null {
+  const headers = err?.headers;
+  const get = (name: string): string | null => {
+    if (!headers) return null;
+    if (typeof headers.get === 'function') return headers.get(name);
+    return headers[name] ?? null;
+  };
+  const msRaw = get('retry-after-ms');
+  if (msRaw && Number.isFinite(Number(msRaw))) return Math.max(0, Number(msRaw));
+  const raw = get('retry-after');
+  if (!raw) return null;
+  const secs = Number(raw);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const date = Date.parse(raw);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, opts: RetryOptions): Promise<T> {
+  const base = opts.baseDelayMs ?? 1000;
+  const max = opts.maxDelayMs ?? 60000;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt >= opts.retries || !isRetryableError(err)) throw err;
+      // Exponential backoff with jitter; Retry-After wins when the server sends it
+      const exp = Math.min(max, base * 2 ** attempt);
+      const backoff = exp / 2 + Math.random() * (exp / 2);
+      const delayMs = Math.min(max, retryAfterMs(err) ?? backoff);
+      opts.onRetry?.({ attempt: attempt + 1, delayMs, error: err });
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { toMarkdownTable } from '@/lib/markdown-table';
+
+// Structured table model shared by the converter (output=json), /api/extract
+// and the client. GFM markdown is generated from this structure, and model
+// output that only exists as markdown is parsed back into it.
+
+// PDF points at scale 1, origin top-left
+export interface BBox { x0: number; y0: number; x1: number; y1: number }
+
+// Part of the page image a table was read from, as fractions of the image width/height.
+// page: the whole image, table: a detected table region, tile: a piece of a large page/region,
+// rest: the image (or a tile of it) with the table regions blanked out
+export interface Region {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  kind: 'page' | 'table' | 'tile' | 'rest';
+  // Set on the first crop of the topmost table region: true when the page above it is blank apart from the top margin
+  pageTop?: boolean;
+}
+
+export interface TableCell {
+  text: string;
+  // Zero-based column where the cell starts
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  bbox?: BBox;
+}
+
+export interface StructuredTable {
+  // lattice: ruling lines, stream: text alignment, markdown: parsed from model output,
+  // spreadsheet/html: read natively from XLSX/XLS/CSV and HTML/DOCX uploads
+  source: 'lattice' | 'stream' | 'markdown' | 'spreadsheet' | 'html';
+  columns: number;
+  // Each row lists only the cells that start in it; positions covered by a span are omitted
+  header: TableCell[][];
+  body: TableCell[][];
+  footnotes: string[];
+  bbox?: BBox;
+  // Set for tables read by the vision model
+  region?: Region;
+  // First table of a page: true when only the top margin (running header) is above it, false when
+  // a heading or text is; unset when not known (whole-page model output)
+  pageTop?: boolean;
+}
+
+export interface GridSpan { row: number; col: number; rowSpan: number; colSpan: number }
+
+const SPANS_COMMENT = /^<!--\s*spans:\s*(.*?)\s*-->$/i;
+const SEPARATOR_ROW = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+export function tableRows(table: StructuredTable): TableCell[][] {
+  return [...table.header, ...table.body];
+}
+
+// Split grid rows into header/body. The header is the first row, extended
+// downwards when one of its cells spans several rows (multi-line headers).
+export function splitHeader(rows: TableCell[][]): { header: TableCell[][]; body: TableCell[][] } {
+  if (rows.length === 0) return { header: [], body: [] };
+  const headerRows = Math.max(1, Math.min(rows.length - 1, Math.max(1, ...rows[0].map(c => c.rowSpan))));
+  return { header: rows.slice(0, headerRows), body: rows.slice(headerRows) };
+}
+
+// Build cells from a text grid; positions covered by a span are dropped
+export function gridToTable(
+  grid: string[][],
+  source: StructuredTable['source'],
+  spans: GridSpan[] = [],
+  extra: { footnotes?: string[]; bbox?: BBox } = {},
+): StructuredTable {
+  const columns = Math.max(0, ...grid.map(r => r.length));
+  const covered = new Set<string>();
+  const spanAt = new Map<string, GridSpan>();
+  for (const s of spans) {
+    if (s.row >= grid.length || s.col >= columns) continue;
+    spanAt.set(`${s.row}:${s.col}`, s);
+    for (let r = s.row; r < s.row + s.rowSpan; r++) {
+      for (let c = s.col; c < s.col + s.colSpan; c++) {
+        if (r !== s.row || c !== s.col) covered.add(`${r}:${c}`);
+      }
+    }
+  }
+  const rows = grid.map((row, r) => {
+    const cells: TableCell[] = [];
+    for (let c = 0; c < columns; c++) {
+      if (covered.has(`${r}:${c}`)) continue;
+      const span = spanAt.get(`${r}:${c}`);
+      cells.push({
+        text: row[c] ?? '',
+        col: c,
+        rowSpan: Math.min(span?.rowSpan ?? 1, grid.length - r),
+        colSpan: Math.min(span?.colSpan ?? 1, columns - c),
+      });
+    }
+    return cells;
+  });
+  return { source, columns, ...splitHeader(rows), footnotes: extra.footnotes ?? [], ...(extra.bbox ? { bbox: extra.bbox } : {}) };
+}
+
+// Expand to a rectangular grid, repeating merged text into every covered position
+export function tableToGrid(table: StructuredTable): string[][] {
+  const rows = tableRows(table);
+  const grid: string[][] = rows.map(() => new Array(table.columns).fill(''));
+  rows.forEach((row, r) => {
+    for (const cell of row) {
+      for (let rr = r; rr < Math.min(rows.length, r + cell.rowSpan); rr++) {
+        for (let cc = cell.col; cc < Math.min(table.columns, cell.col + cell.colSpan); cc++) grid[rr][cc] = cell.text;
+      }
+    }
+  });
+  return grid;
+}
+
+// Merged cells are repeated into every grid position they cover, and an
+// HTML comment after the table lists the spans (1-based, row 1 = header row)
+// so consumers can tell merged cells from genuinely repeated values.
+// Footnotes follow on their own lines.
+export function tableToMarkdown(table: StructuredTable): string {
+  const spans: string[] = [];
+  tableRows(table).forEach((row, r) => {
+    for (const cell of row) {
+      if (cell.rowSpan > 1 || cell.colSpan > 1) {
+        spans.push(`r${r + 1}c${cell.col + 1} rowspan=${cell.rowSpan} colspan=${cell.colSpan}`);
+      }
+    }
+  });
+  const parts = [toMarkdownTable(tableToGrid(table))];
+  if (spans.length > 0) parts.push(`<!-- spans: ${spans.join('; ')} -->`);
+  parts.push(...table.footnotes);
+  return parts.join('\n');
+}
+
+export function tablesToMarkdown(tables: StructuredTable[]): string {
+  return tables.map(tableToMarkdown).join('\n\n');
+}
+
+function splitMarkdownRow(line: string): string[] {
+  let s = line.trim();
+  if (s.startsWith('|')) s = s.slice(1);
+  if (s.endsWith('|') && !s.endsWith('\\|')) s = s.slice(0, -1);
+  return s.split(/(?<!\\)\|/).map(c => c.replace(/\\\|/g, '|').trim());
+}
+
+function parseSpans(comment: string): GridSpan[] {
+  const spans: GridSpan[] = [];
+  for (const m of comment.matchAll(/r(\d+)c(\d+)\s+rowspan=(\d+)\s+colspan=(\d+)/gi)) {
+    spans.push({ row: Number(m[1]) - 1, col: Number(m[2]) - 1, rowSpan: Number(m[3]), colSpan: Number(m[4]) });
+  }
+  return spans;
+}
+
+// Parse GFM pipe tables, including the spans comment emitted by tableToMarkdown
+// and footnote lines placed directly below a table.
+export function parseMarkdownTables(markdown: string): StructuredTable[] {
+  const lines = (markdown || '').replace(/\r/g, '').split('\n');
+  const tables: StructuredTable[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i].trim();
+    if (!(line.startsWith('|') && SEPARATOR_ROW.test((lines[i + 1] || '').trim()))) {
+      i++;
+      continue;
+    }
+    const grid = [splitMarkdownRow(line)];
+    i += 2;
+    while (i < lines.length && lines[i].trim().startsWith('|')) {
+      grid.push(splitMarkdownRow(lines[i]));
+      i++;
+    }
+    let spans: GridSpan[] = [];
+    const footnotes: string[] = [];
+    while (i < lines.length && lines[i].trim()) {
+      const next = lines[i].trim();
+      if (next.startsWith('#') || (next.startsWith('|') && SEPARATOR_ROW.test((lines[i + 1] || '').trim()))) break;
+      const spanMatch = next.match(SPANS_COMMENT);
+      if (spanMatch) spans = parseSpans(spanMatch[1]);
+      else footnotes.push(next);
+      i++;
+    }
+    tables.push(gridToTable(grid, 'markdown', spans, { footnotes }));
+  }
+  return tables;
+}
+
+// Posted tables are cut to this size; cells starting outside it are dropped and spans are clipped
+const MAX_POSTED_COLUMNS = 200;
+const MAX_POSTED_ROWS = 200;
+
+// Loose validation for tables posted back by clients
+export function sanitizeTables(value: unknown): StructuredTable[] {
+  if (!Array.isArray(value)) return [];
+  const count = (v: any, max: number) => Math.min(max, Math.max(1, Math.floor(Number(v) || 1)));
+  const cellRows = (rows: any, maxRows: number): TableCell[][] => (Array.isArray(rows) ? rows : [])
+    .filter(Array.isArray)
+    .slice(0, maxRows)
+    .map((row: any[]) => row
+      .filter(c => c && typeof c === 'object')
+      .slice(0, MAX_POSTED_COLUMNS)
+      .map(c => ({ c, col: Math.max(0, Math.floor(Number(c.col) || 0)) }))
+      .filter(({ col }) => col < MAX_POSTED_COLUMNS)
+      .map(({ c, col }) => ({
+        text: String(c.text ?? ''),
+        col,
+        rowSpan: count(c.rowSpan, MAX_POSTED_ROWS),
+        colSpan: count(c.colSpan, MAX_POSTED_COLUMNS - col),
+      })));
+  return value
+    .filter((t: any) => t && typeof t === 'object')
+    .map((t: any) => {
+      const header = cellRows(t.header, MAX_POSTED_ROWS);
+      const body = cellRows(t.body, MAX_POSTED_ROWS - header.length);
+      const columns = Math.min(MAX_POSTED_COLUMNS, Math.max(
+        Math.floor(Number(t.columns)) || 0,
+        ...[...header, ...body].flatMap(row => row.map(c => c.col + c.colSpan)),
+      ));
+      return {
+        source: (['lattice', 'stream', 'markdown', 'spreadsheet', 'html'].includes(t.source) ? t.source : 'markdown') as StructuredTable['source'],
+        columns,
+        header,
+        body,
+        footnotes: Array.isArray(t.footnotes) ? t.footnotes.map(String) : [],
+      };
+    })
+    .filter(t => t.columns > 0 && t.header.length + t.body.length > 0);
+}
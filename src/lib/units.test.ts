@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { convertQuantity, lookupUnit, normalizeValue, parseQuantity } from '@/lib/units';
+
+describe('parseQuantity', () => {
+  it('reads a value and its unit', () => {
+    expect(parseQuantity('250 m3/h')).toEqual({ value: 250, unit: 'm³/h' });
+    expect(parseQuantity('1,100 USGPM')).toEqual({ value: 1100, unit: 'USgpm' });
+    expect(parseQuantity('US GPM 1100')).toBeNull();
+  });
+
+  it('reads thousands separators and decimal commas and points', () => {
+    expect(parseQuantity('1,234.5 m3/h')?.value).toBe(1234.5);
+    expect(parseQuantity('12,5 kW')?.value).toBe(12.5);
+    expect(parseQuantity('12.5 kW')?.value).toBe(12.5);
+    expect(parseQuantity('.75 bar')?.value).toBe(0.75);
+  });
+
+  it('reads ranges in either order and with a unit on either bound', () => {
+    expect(parseQuantity('100-120 kW')).toEqual({ value: 100, min: 100, max: 120, unit: 'kW' });
+    expect(parseQuantity('120 to 100 m3/h')).toMatchObject({ min: 100, max: 120, unit: 'm³/h' });
+    expect(parseQuantity('100 ft ~ 120 ft')).toMatchObject({ min: 100, max: 120, unit: 'ft' });
+  });
+
+  it('reads tolerances', () => {
+    expect(parseQuantity('45 ± 2 mH')).toEqual({ value: 45, tolerance: 2, unit: 'm' });
+    expect(parseQuantity('120 m3/h +/- 5 %')).toEqual({ value: 120, tolerance: 5, tolerancePercent: true, unit: 'm³/h' });
+  });
+
+  it('ignores trailing annotations', () => {
+    expect(parseQuantity('250 m3/h (rated)')).toEqual({ value: 250, unit: 'm³/h' });
+    expect(parseQuantity('approx. 30 kW @ 1780 rpm')).toEqual({ value: 30, unit: 'kW' });
+  });
+});
+
+describe('convertQuantity', () => {
+  it('converts USGPM to m³/h', () => {
+    expect(convertQuantity({ value: 1000, unit: 'USgpm' }, 'm³/h')?.value).toBeCloseTo(227.1247, 4);
+  });
+
+  it('converts ft to m', () => {
+    expect(convertQuantity({ value: 100, unit: 'ft' }, 'm')?.value).toBeCloseTo(30.48, 6);
+  });
+
+  it('converts hp to kW', () => {
+    expect(convertQuantity({ value: 100, unit: 'hp' }, 'kW')?.value).toBeCloseTo(74.57, 2);
+  });
+
+  it('converts both bounds of a range and an absolute tolerance', () => {
+    const q = convertQuantity({ value: 300, min: 300, max: 400, tolerance: 10, unit: 'ft' }, 'm');
+    expect(q?.min).toBeCloseTo(91.44, 6);
+    expect(q?.max).toBeCloseTo(121.92, 6);
+    expect(q?.tolerance).toBeCloseTo(3.048, 6);
+  });
+
+  it('keeps a percent tolerance as is', () => {
+    expect(convertQuantity({ value: 100, tolerance: 5, tolerancePercent: true, unit: 'hp' }, 'kW')).toMatchObject({ tolerance: 5, tolerancePercent: true });
+  });
+
+  it('refuses units of another dimension', () => {
+    expect(convertQuantity({ value: 10, unit: 'ft' }, 'kW')).toBeNull();
+  });
+});
+
+describe('normalizeValue', () => {
+  it('normalizes to the field unit', () => {
+    expect(normalizeValue('rated flow', '1,100 USGPM').text).toBe('249.8 m³/h');
+    expect(normalizeValue('TDH', '150 ft').text).toBe('45.72 m');
+    expect(normalizeValue('shaft power', '75 HP').text).toBe('55.93 kW');
+    expect(normalizeValue('rated flow', '400-500 USGPM').text).toBe('90.85–113.6 m³/h');
+    expect(normalizeValue('rated flow', '12,5 l/s').text).toBe('45 m³/h');
+  });
+
+  it('keeps values without a unit or with an unknown unit as written', () => {
+    expect(normalizeValue('rated flow', '250').text).toBe('250');
+    expect(normalizeValue('TDH', '45 furlongs').normalized).toBeNull();
+  });
+
+  it('tells mW from MW and rejects the lower-case spelling', () => {
+    expect(lookupUnit('MW')?.factor).toBe(1000);
+    expect(lookupUnit('mW')?.factor).toBe(0.000001);
+    expect(lookupUnit('mw')).toBeNull();
+    expect(normalizeValue('shaft power', '2 MW').text).toBe('2000 kW');
+    expect(normalizeValue('shaft power', '10 mW').text).toBe('0.00001 kW');
+    expect(normalizeValue('shaft power', '10 mw').normalized).toBeNull();
+  });
+});
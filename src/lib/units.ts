@@ -0,0 +1,203 @@
+import { normalizeNumber } from '@/lib/verify-numbers';
+
+// Parsing of engineering values ("250 m3/h", "1,100 USGPM", "45 ± 2 mH",
+// "100-120 kW") into number, unit, range and tolerance, and conversion to a
+// per-field target unit so vendors can be compared side by side.
+// Client-safe: the grid normalizes hand-edited values with the same code.
+
+export type Dimension = 'flow' | 'head' | 'power' | 'pressure' | 'speed' | 'ratio';
+
+export interface Quantity {
+  // The value as written; for a range its lower bound
+  value: number;
+  // Set for ranges ("100-120", "100 to 120")
+  min?: number;
+  max?: number;
+  // "± 2" (in `unit`) or "± 5 %" (`tolerancePercent`)
+  tolerance?: number;
+  tolerancePercent?: boolean;
+  // Canonical unit name ('m³/h', 'USgpm', ...); empty when the value has no unit
+  unit: string;
+}
+
+export interface NormalizedValue {
+  original: string;
+  // Parsed as written; null when the text does not start with a number
+  quantity: Quantity | null;
+  // Converted to the field's target unit; null when the unit is missing, unknown or of another dimension
+  normalized: Quantity | null;
+  // `normalized` formatted for display, otherwise the original text
+  text: string;
+}
+
+interface UnitDef { unit: string; dimension: Dimension; factor: number }
+
+// Factors convert to the dimension's base unit (first entry of BASE_UNITS)
+const UNITS: [string[], UnitDef][] = [
+  [['m3/h', 'm3/hr', 'm3h', 'cmh'], { unit: 'm³/h', dimension: 'flow', factor: 1 }],
+  [['m3/min'], { unit: 'm³/min', dimension: 'flow', factor: 60 }],
+  [['m3/s'], { unit: 'm³/s', dimension: 'flow', factor: 3600 }],
+  [['l/s', 'lps'], { unit: 'l/s', dimension: 'flow', factor: 3.6 }],
+  [['l/min', 'lpm'], { unit: 'l/min', dimension: 'flow', factor: 0.06 }],
+  [['l/h'], { unit: 'l/h', dimension: 'flow', factor: 0.001 }],
+  [['usgpm', 'gpm', 'usgal/min'], { unit: 'USgpm', dimension: 'flow', factor: 0.227124707 }],
+  [['igpm', 'impgpm', 'ukgpm'], { unit: 'IGPM', dimension: 'flow', factor: 0.272765537 }],
+  [['m', 'mh', 'mlc', 'mwc', 'mh2o', 'mwg', 'meter', 'meters'], { unit: 'm', dimension: 'head', factor: 1 }],
+  [['ft', 'feet', 'fth2o', 'ftwc'], { unit: 'ft', dimension: 'head', factor: 0.3048 }],
+  [['kw'], { unit: 'kW', dimension: 'power', factor: 1 }],
+  [['w'], { unit: 'W', dimension: 'power', factor: 0.001 }],
+  [['hp', 'bhp'], { unit: 'hp', dimension: 'power', factor: 0.745699872 }],
+  [['ps'], { unit: 'PS', dimension: 'power', factor: 0.73549875 }],
+  [['bar', 'barg', 'bar(g)'], { unit: 'bar', dimension: 'pressure', factor: 1 }],
+  [['mbar'], { unit: 'mbar', dimension: 'pressure', factor: 0.001 }],
+  [['kpa', 'kpag'], { unit: 'kPa', dimension: 'pressure', factor: 0.01 }],
+  [['mpa', 'mpag'], { unit: 'MPa', dimension: 'pressure', factor: 10 }],
+  [['psi', 'psig'], { unit: 'psi', dimension: 'pressure', factor: 0.0689475729 }],
+  [['kg/cm2', 'kgf/cm2', 'kg/cm2g', 'kgf/cm2g'], { unit: 'kgf/cm²', dimension: 'pressure', factor: 0.980665 }],
+  [['rpm', 'min-1', '1/min', 'r/min'], { unit: 'rpm', dimension: 'speed', factor: 1 }],
+  [['%'], { unit: '%', dimension: 'ratio', factor: 1 }],
+];
+
+const UNIT_BY_KEY = new Map(UNITS.flatMap(([keys, def]) => keys.map(k => [k, def] as const)));
+
+// Symbols whose prefix is only told apart by case (mW is a milliwatt, MW a megawatt)
+// are looked up as written; any other spelling ("mw", "Mw") is not a unit
+const CASED_UNITS: Record<string, Record<string, UnitDef>> = {
+  mw: {
+    MW: { unit: 'MW', dimension: 'power', factor: 1000 },
+    mW: { unit: 'mW', dimension: 'power', factor: 0.000001 },
+  },
+};
+
+const BASE_UNITS: Record<Dimension, string> = {
+  flow: 'm³/h',
+  head: 'm',
+  power: 'kW',
+  pressure: 'bar',
+  speed: 'rpm',
+  ratio: '%',
+};
+
+// Target dimension by field name; fields not listed use the base unit of whatever they were written in
+const FIELD_DIMENSIONS: [RegExp, Dimension][] = [
+  [/flow|capacity/i, 'flow'],
+  [/\btdh\b|head/i, 'head'],
+  [/power/i, 'power'],
+  [/efficiency/i, 'ratio'],
+  [/pressure/i, 'pressure'],
+  [/speed/i, 'speed'],
+];
+
+const NUMBER_AT = /^[-+]?(?:\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:[.,]\d+)?|\.\d+)/;
+// "US GPM", "m H2O" and "kg/cm² g" are written with spaces; other units are one token ("to" starts a range)
+const UNIT_AT = /^(?:%|(?:US|Imp|UK)\.?\s*gpm\b|(?!to\b)[a-zµ°][a-z0-9³²µ°/()\-.]*(?:\s*(?:H2O|WC|LC)\b)?)/i;
+
+function unitKey(unit: string) {
+  return unit.toLowerCase().replace(/[\s.]+/g, '').replace(/³/g, '3').replace(/²/g, '2');
+}
+
+export function lookupUnit(unit: string): UnitDef | null {
+  const key = unitKey(unit);
+  const cased = CASED_UNITS[key];
+  if (cased) return cased[unit.replace(/[\s.]+/g, '')] ?? null;
+  return UNIT_BY_KEY.get(key) ?? null;
+}
+
+function readNumber(s: string): [number, string] | null {
+  const m = s.match(NUMBER_AT);
+  if (!m) return null;
+  const value = Number((m[0].startsWith('-') ? '-' : '') + normalizeNumber(m[0]));
+  return Number.isFinite(value) ? [value, s.slice(m[0].length).trimStart()] : null;
+}
+
+function readUnit(s: string): [string, string] {
+  const m = s.match(UNIT_AT);
+  if (!m) return ['', s];
+  let raw = m[0].replace(/[.\-]+$/, '');
+  // "m3/h(rated)": keep the annotation out of the unit unless it is part of one ("bar(g)")
+  if (!lookupUnit(raw) && raw.includes('(')) raw = raw.slice(0, raw.indexOf('('));
+  return [lookupUnit(raw)?.unit ?? raw, s.slice(raw.length).trimStart()];
+}
+
+// Parse the leading quantity of a value; trailing text ("@ 45 m", "(rated)") is ignored
+export function parseQuantity(text: string): Quantity | null {
+  let s = (text || '').trim().replace(/^(?:approx\.?|ca\.?|about|~|≈)\s*/i, '');
+  const first = readNumber(s);
+  if (!first) return null;
+  let value = first[0];
+  s = first[1];
+  let unit: string;
+  [unit, s] = readUnit(s);
+  const quantity: Quantity = { value, unit };
+  const range = s.match(/^(?:-|–|~|to)\s*/i);
+  const second = range ? readNumber(s.slice(range[0].length).replace(/^\+/, '')) : null;
+  if (second) {
+    s = second[1];
+    let unit2: string;
+    [unit2, s] = readUnit(s);
+    quantity.min = Math.min(value, second[0]);
+    quantity.max = Math.max(value, second[0]);
+    quantity.value = value = quantity.min;
+    if (unit2) quantity.unit = unit = unit2;
+  }
+  const tol = s.match(/^(?:±|\+\/-|\+-)\s*/);
+  const tolerance = tol ? readNumber(s.slice(tol[0].length)) : null;
+  if (tolerance) {
+    quantity.tolerance = Math.abs(tolerance[0]);
+    const [tolUnit] = readUnit(tolerance[1]);
+    if (tolUnit === '%') quantity.tolerancePercent = true;
+    else if (tolUnit && !unit) quantity.unit = unit = tolUnit;
+  }
+  return quantity;
+}
+
+// Dimension the field is compared in, from its name or (for other fields) from the written unit
+export function fieldDimension(field: string, unit?: string): Dimension | null {
+  const byName = FIELD_DIMENSIONS.find(([pattern]) => pattern.test(field))?.[1];
+  return byName ?? (unit ? lookupUnit(unit)?.dimension ?? null : null);
+}
+
+export function targetUnit(field: string, unit?: string): string | null {
+  const dimension = fieldDimension(field, unit);
+  return dimension ? BASE_UNITS[dimension] : null;
+}
+
+// Convert a quantity to `target`; null when the units are unknown or of different dimensions
+export function convertQuantity(quantity: Quantity, target: string): Quantity | null {
+  const from = lookupUnit(quantity.unit);
+  const to = lookupUnit(target);
+  if (!from || !to || from.dimension !== to.dimension) return null;
+  const k = from.factor / to.factor;
+  return {
+    value: quantity.value * k,
+    ...(quantity.min !== undefined ? { min: quantity.min * k, max: (quantity.max as number) * k } : {}),
+    ...(quantity.tolerance !== undefined
+      ? { tolerance: quantity.tolerancePercent ? quantity.tolerance : quantity.tolerance * k }
+      : {}),
+    ...(quantity.tolerancePercent ? { tolerancePercent: true } : {}),
+    unit: to.unit,
+  };
+}
+
+// Four significant digits, without exponent notation or trailing zeros
+export function formatNumber(n: number): string {
+  const rounded = Number(n.toPrecision(4));
+  return Math.abs(rounded) >= 1e4 ? Math.round(rounded).toString() : rounded.toString();
+}
+
+export function formatQuantity(q: Quantity): string {
+  const value = q.min !== undefined ? `${formatNumber(q.min)}–${formatNumber(q.max as number)}` : formatNumber(q.value);
+  // "45 ± 2 m" but "120 m³/h ± 5 %"
+  const tolerance = q.tolerance !== undefined ? ` ± ${formatNumber(q.tolerance)}` : '';
+  return q.tolerancePercent
+    ? [value, q.unit].filter(Boolean).join(' ') + `${tolerance} %`
+    : [value + tolerance, q.unit].filter(Boolean).join(' ');
+}
+
+export function normalizeValue(field: string, text: string): NormalizedValue {
+  const original = text || '';
+  const quantity = parseQuantity(original);
+  const target = quantity ? targetUnit(field, quantity.unit) : null;
+  const normalized = quantity && target ? convertQuantity(quantity, target) : null;
+  return { original, quantity, normalized, text: normalized ? formatQuantity(normalized) : original };
+}
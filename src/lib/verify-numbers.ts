@@ -0,0 +1,55 @@
+import type { TextItem } from '@/lib/pdf-text';
+import { tableRows, type StructuredTable } from '@/lib/table-structure';
+
+// Numeric check of vision output against the PDF text layer. Every number in a
+// table cell must also occur in the page text; numbers that do not (e.g. the
+// model reading "1,450" as "1,540") are reported for review.
+// Client-safe: the client uses the same number parsing to highlight grid cells.
+
+export interface NumericWarning {
+  page: number;
+  // 1-based table index on the page
+  table: number;
+  // 1-based cell position, row 1 = header row (as in the spans comment)
+  row: number;
+  col: number;
+  cell: string;
+  // The number as written in the cell
+  value: string;
+}
+
+// Numbers not preceded by a letter (so "m3", "DN50" or "PN16" are not checked); units may follow directly
+const NUMBER = /(?<![\p{L}\d.,])[-+]?\d{1,3}(?:,\d{3})+(?:\.\d+)?(?!\d)|(?<![\p{L}\d.,])[-+]?\d+(?:[.,]\d+)?(?!\d)/gu;
+
+// Canonical form for comparison: no sign, no thousands separators, decimal point
+export function normalizeNumber(raw: string): string {
+  let s = raw.replace(/^[-+]/, '');
+  if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(s)) s = s.replace(/,/g, '');
+  else s = s.replace(',', '.');
+  if (s.includes('.')) s = s.replace(/0+$/, '').replace(/\.$/, '');
+  return s.replace(/^0+(?=\d)/, '');
+}
+
+// Numbers worth checking: at least two digits (single digits are too common to verify)
+export function extractNumbers(text: string): string[] {
+  return (text.match(NUMBER) || []).filter(n => n.replace(/\D/g, '').length >= 2);
+}
+
+export function verifyTableNumbers(page: number, tables: StructuredTable[], items: TextItem[]): NumericWarning[] {
+  // Items are joined both ways because pdfjs may split one number over several items
+  const text = `${items.map(i => i.str).join(' ')}\n${items.map(i => i.str).join('')}`;
+  const known = new Set(extractNumbers(text).map(normalizeNumber));
+  const warnings: NumericWarning[] = [];
+  tables.forEach((table, t) => {
+    tableRows(table).forEach((row, r) => {
+      for (const cell of row) {
+        for (const value of extractNumbers(cell.text)) {
+          if (!known.has(normalizeNumber(value))) {
+            warnings.push({ page, table: t + 1, row: r + 1, col: cell.col + 1, cell: cell.text, value });
+          }
+        }
+      }
+    });
+  });
+  return warnings;
+}